@@ -1,18 +1,63 @@
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import "./App.css";
+import { BedOffsetSettings } from "./components/BedOffsetSettings";
 import { DropZone } from "./components/DropZone";
+import { EjectionCheck } from "./components/EjectionCheck";
+import { EjectionMacroPicker } from "./components/EjectionMacroPicker";
+import { FilamentMapping } from "./components/FilamentMapping";
 import { FileList } from "./components/FileList";
-import type { GCodeFile, ProcessingState } from "./types";
+import { LintReport } from "./components/LintReport";
+import { MaintenanceSettings } from "./components/MaintenanceSettings";
+import { PrintTimeline } from "./components/PrintTimeline";
+import { RecentJobs } from "./components/RecentJobs";
+import { ResumeSettings } from "./components/ResumeSettings";
+import { SequenceOptimizer } from "./components/SequenceOptimizer";
+import { SplitSettings } from "./components/SplitSettings";
+import { ToolpathPreview } from "./components/ToolpathPreview";
+import type {
+  BedOffset,
+  BedOffsetOptions,
+  CombineOptions,
+  EjectionMacro,
+  FilamentChangeMode,
+  GCodeFile,
+  JobManifest,
+  JobSettings,
+  MaintenanceRule,
+  PrintOverrides,
+  ProcessingState,
+  ResumeOptions,
+  SplitLimits,
+} from "./types";
+import { NO_SPLIT_LIMITS } from "./utils/batchSplit";
+import { NO_BED_OFFSET } from "./utils/bedOffset";
+import { parseDateTimeInputValue, toDateTimeInputValue } from "./utils/clock";
+import { checkCompatibility } from "./utils/compatibility";
 import {
-  calculateTotalTime,
-  FileProcessingError,
-  processUploadedFile,
-} from "./utils/fileProcessor";
+  FILAMENT_CHANGE_MODE_LABELS,
+  findFilamentChanges,
+} from "./utils/filamentChange";
+import { FileProcessingError, formatSeconds } from "./utils/fileProcessor";
+import { downloadBlob } from "./utils/gcodeCombiner";
+import { getFilamentWeight } from "./utils/gcodeHeader";
+import { lintBatch } from "./utils/gcodeLinter";
 import {
-  combineGCode,
-  createCombinedZip,
-  downloadBlob,
-} from "./utils/gcodeCombiner";
+  createJobId,
+  createJobManifest,
+  getJobSettings,
+  getUploadKey,
+  parseJobManifest,
+  restoreJobFiles,
+} from "./utils/jobManifest";
+import { loadUpload, saveJob, storeUpload } from "./utils/jobStorage";
+import { getPlanSeconds, getPrintPlans } from "./utils/printPlan";
+import { CancelledError, CombinerClient } from "./workers/combinerClient";
+
+// The worker only starts on first use, so this costs nothing until then
+const combiner = new CombinerClient();
+
+// Edits are saved once they've settled for this long
+const AUTOSAVE_DELAY_MS = 1000;
 
 function App() {
   const [files, setFiles] = useState<GCodeFile[]>([]);
@@ -22,10 +67,101 @@ function App() {
     message: "",
   });
   const [error, setError] = useState<string | null>(null);
-  const [profileConfirmed, setProfileConfirmed] = useState(false);
+  const [notices, setNotices] = useState<string[]>([]);
+  const [compatibilityOverride, setCompatibilityOverride] = useState(false);
+  const [previewFileId, setPreviewFileId] = useState<string | null>(null);
+  const [ejectionMacro, setEjectionMacro] = useState<EjectionMacro | null>(
+    null,
+  );
+  const [calibrateOnce, setCalibrateOnce] = useState(false);
+  const [splitLimits, setSplitLimits] = useState<SplitLimits>(NO_SPLIT_LIMITS);
+  const [bedOffset, setBedOffset] = useState<BedOffsetOptions>(NO_BED_OFFSET);
+  const [maintenance, setMaintenance] = useState<MaintenanceRule[]>([]);
+  const [resume, setResume] = useState<ResumeOptions>({
+    fromPrint: 1,
+    clearBed: true,
+  });
+  const [batchStart, setBatchStart] = useState(() =>
+    toDateTimeInputValue(new Date()),
+  );
+  // The saved job the current batch is stored as; set on the first save
+  const jobIdRef = useRef<string | null>(null);
+  const [filamentChange, setFilamentChange] =
+    useState<FilamentChangeMode>("pause");
+
+  const filamentChanges = useMemo(() => findFilamentChanges(files), [files]);
+  const compatibilityIssues = useMemo(
+    () =>
+      checkCompatibility(
+        files,
+        new Set(filamentChange === "off" ? [] : filamentChanges.keys()),
+      ),
+    [files, filamentChange, filamentChanges],
+  );
+  const combineOptions = useMemo<CombineOptions>(
+    () => ({
+      ejectionMacro,
+      calibrateOnce,
+      filamentChange,
+      split: splitLimits,
+      // Clearing the bed needs a built-in ejection sequence to run
+      resume:
+        resume.fromPrint > 1
+          ? { ...resume, clearBed: resume.clearBed && ejectionMacro !== null }
+          : null,
+      bedOffset,
+      maintenance,
+    }),
+    [
+      ejectionMacro,
+      calibrateOnce,
+      filamentChange,
+      splitLimits,
+      resume,
+      bedOffset,
+      maintenance,
+    ],
+  );
+  const previewFile = files.find((file) => file.id === previewFileId) ?? null;
+  const lintFindings = useMemo(
+    () => lintBatch(files, combineOptions),
+    [files, combineOptions],
+  );
+  const printPlans = useMemo(
+    () => getPrintPlans(files, combineOptions),
+    [files, combineOptions],
+  );
+  const jobSettings = useMemo<JobSettings>(
+    () => ({
+      ejectionMacro,
+      calibrateOnce,
+      filamentChange,
+      split: splitLimits,
+      resume,
+      bedOffset,
+      maintenance,
+      batchStart,
+    }),
+    [
+      ejectionMacro,
+      calibrateOnce,
+      filamentChange,
+      splitLimits,
+      resume,
+      bedOffset,
+      maintenance,
+      batchStart,
+    ],
+  );
+  const hasCompatibilityIssues = compatibilityIssues.size > 0;
+  const hasMissingEjection =
+    ejectionMacro === null &&
+    files.some((file) => file.ejection.status === "missing");
 
   const handleFilesSelected = useCallback(async (selectedFiles: File[]) => {
     setError(null);
+    setNotices([]);
+    setCompatibilityOverride(false);
     setProcessing({
       isProcessing: true,
       progress: 0,
@@ -33,20 +169,36 @@ function App() {
     });
 
     const newFiles: GCodeFile[] = [];
+    const newNotices: string[] = [];
     const errors: string[] = [];
 
     for (let i = 0; i < selectedFiles.length; i++) {
       const file = selectedFiles[i];
+      const message = `Processing ${file.name}...`;
       setProcessing({
         isProcessing: true,
-        progress: ((i + 1) / selectedFiles.length) * 100,
-        message: `Processing ${file.name}...`,
+        progress: (i / selectedFiles.length) * 100,
+        message,
       });
 
       try {
-        const processedFiles = await processUploadedFile(file);
-        newFiles.push(...processedFiles);
+        const upload = await combiner.processFile(file, (fraction) =>
+          setProcessing({
+            isProcessing: true,
+            progress: ((i + fraction) / selectedFiles.length) * 100,
+            message,
+          }),
+        );
+        newFiles.push(...upload.files);
+        newNotices.push(...upload.notices);
+        // Kept so the batch can be restored after a reload; best-effort, as
+        // some browsers don't allow local storage
+        storeUpload(getUploadKey(file), file).catch(() => {});
       } catch (err) {
+        if (err instanceof CancelledError) {
+          // Keep the files that were already read
+          break;
+        }
         if (err instanceof FileProcessingError) {
           errors.push(err.message);
         } else {
@@ -58,6 +210,7 @@ function App() {
     }
 
     setFiles((prev) => [...prev, ...newFiles]);
+    setNotices(newNotices);
     setProcessing({ isProcessing: false, progress: 0, message: "" });
 
     if (errors.length > 0) {
@@ -65,6 +218,114 @@ function App() {
     }
   }, []);
 
+  const handleOpenJob = useCallback(async (manifest: JobManifest) => {
+    setError(null);
+    setNotices([]);
+    setCompatibilityOverride(false);
+
+    const sources = Array.from(
+      new Map(manifest.items.map((item) => [item.sourceKey, item.sourceFile])),
+    );
+    const uploads = new Map<string, GCodeFile[]>();
+
+    try {
+      for (const [i, [key, sourceFile]] of sources.entries()) {
+        const message = `Restoring ${sourceFile}...`;
+        setProcessing({
+          isProcessing: true,
+          progress: (i / sources.length) * 100,
+          message,
+        });
+
+        const file = await loadUpload(key).catch(() => null);
+        if (!file) continue;
+
+        const upload = await combiner.processFile(file, (fraction) =>
+          setProcessing({
+            isProcessing: true,
+            progress: ((i + fraction) / sources.length) * 100,
+            message,
+          }),
+        );
+        uploads.set(key, upload.files);
+      }
+    } catch (err) {
+      if (!(err instanceof CancelledError)) {
+        setError(err instanceof Error ? err.message : "Failed to open the job");
+      }
+      setProcessing({ isProcessing: false, progress: 0, message: "" });
+      return;
+    }
+
+    const { files: restoredFiles, missing } = restoreJobFiles(
+      manifest,
+      uploads,
+    );
+    const settings = getJobSettings(manifest);
+
+    jobIdRef.current = manifest.id;
+    setFiles(restoredFiles);
+    setEjectionMacro(settings.ejectionMacro);
+    setCalibrateOnce(settings.calibrateOnce);
+    setFilamentChange(settings.filamentChange);
+    setSplitLimits(settings.split);
+    setResume(settings.resume);
+    setBedOffset(settings.bedOffset);
+    setMaintenance(settings.maintenance);
+    // A start time that has already passed would only skew the timeline
+    if (parseDateTimeInputValue(settings.batchStart) > new Date()) {
+      setBatchStart(settings.batchStart);
+    }
+    setNotices(
+      missing.map(
+        (name) =>
+          `"${name}" isn't stored in this browser any more. Upload it again to add its plates back.`,
+      ),
+    );
+    setProcessing({ isProcessing: false, progress: 0, message: "" });
+  }, []);
+
+  const handleImportJob = useCallback(
+    async (file: File) => {
+      try {
+        await handleOpenJob(parseJobManifest(await file.text()));
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to open the job file",
+        );
+      }
+    },
+    [handleOpenJob],
+  );
+
+  const handleExportJob = useCallback(() => {
+    if (!jobIdRef.current) {
+      jobIdRef.current = createJobId();
+    }
+    const manifest = createJobManifest(jobIdRef.current, files, jobSettings);
+    const totalPrints = files.reduce((sum, f) => sum + f.copies, 0);
+    downloadBlob(
+      new Blob([JSON.stringify(manifest, null, 2)], {
+        type: "application/json",
+      }),
+      `combined_${totalPrints}_prints.job.json`,
+    );
+  }, [files, jobSettings]);
+
+  // Keep the batch in local storage so a reload doesn't lose it
+  useEffect(() => {
+    if (files.length === 0) return;
+    if (!jobIdRef.current) {
+      jobIdRef.current = createJobId();
+    }
+
+    const manifest = createJobManifest(jobIdRef.current, files, jobSettings);
+    const timer = setTimeout(() => {
+      saveJob(manifest).catch(() => {});
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [files, jobSettings]);
+
   const handleReorder = useCallback((reorderedFiles: GCodeFile[]) => {
     setFiles(reorderedFiles);
   }, []);
@@ -75,14 +336,53 @@ function App() {
     );
   }, []);
 
+  const handleUpdateOverrides = useCallback(
+    (id: string, overrides: PrintOverrides) => {
+      setFiles((prev) =>
+        prev.map((file) => (file.id === id ? { ...file, overrides } : file)),
+      );
+    },
+    [],
+  );
+
+  const handleUpdateFilamentSlot = useCallback(
+    (id: string, filamentId: number, slot: number) => {
+      setFiles((prev) =>
+        prev.map((file) =>
+          file.id === id
+            ? {
+                ...file,
+                filamentSlots: { ...file.filamentSlots, [filamentId]: slot },
+              }
+            : file,
+        ),
+      );
+    },
+    [],
+  );
+
   const handleRemove = useCallback((id: string) => {
     setFiles((prev) => prev.filter((file) => file.id !== id));
     setError(null);
   }, []);
 
+  const handleLoadToolpath = useCallback(
+    (
+      gcode: string,
+      prelude: string,
+      trimCalibration: boolean,
+      offset: BedOffset,
+    ) => combiner.parseToolpath(gcode, prelude, trimCalibration, offset),
+    [],
+  );
+
   const handleClearAll = useCallback(() => {
+    // The cleared batch stays in recent jobs; the next one is saved apart
+    jobIdRef.current = null;
     setFiles([]);
     setError(null);
+    setNotices([]);
+    setCompatibilityOverride(false);
   }, []);
 
   const handleCombineAndDownload = useCallback(async () => {
@@ -96,42 +396,53 @@ function App() {
     });
 
     try {
-      setProcessing({
-        isProcessing: true,
-        progress: 30,
-        message: "Combining G-code...",
-      });
-
-      const combinedGCode = combineGCode(files);
-
-      setProcessing({
-        isProcessing: true,
-        progress: 60,
-        message: "Creating ZIP archive...",
-      });
-
-      const zipBlob = await createCombinedZip(files, combinedGCode);
-
-      setProcessing({
-        isProcessing: true,
-        progress: 90,
-        message: "Preparing download...",
-      });
+      const { blob: zipBlob, partCount } = await combiner.combine(
+        files,
+        combineOptions,
+        (fraction, message) =>
+          setProcessing({
+            isProcessing: true,
+            progress: fraction * 100,
+            message: message ?? "Combining G-code files...",
+          }),
+      );
 
       const totalPrints = files.reduce((sum, f) => sum + f.copies, 0);
-      const filename = `combined_${totalPrints}_prints.gcode.3mf`;
+      const baseName = combineOptions.resume
+        ? `combined_${totalPrints}_prints_from_${combineOptions.resume.fromPrint}`
+        : `combined_${totalPrints}_prints`;
+      const filename =
+        partCount > 1
+          ? `${baseName}_${partCount}_parts.zip`
+          : `${baseName}.gcode.3mf`;
       downloadBlob(zipBlob, filename);
 
       setProcessing({ isProcessing: false, progress: 100, message: "" });
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to combine files");
+      if (!(err instanceof CancelledError)) {
+        setError(
+          err instanceof Error ? err.message : "Failed to combine files",
+        );
+      }
       setProcessing({ isProcessing: false, progress: 0, message: "" });
     }
-  }, [files]);
+  }, [files, combineOptions]);
 
-  const totalPrints = files.reduce((sum, f) => sum + f.copies, 0);
-  const totalTime = calculateTotalTime(files);
-  const totalLines = files.reduce((sum, f) => sum + f.lineCount * f.copies, 0);
+  const handleCancel = useCallback(() => {
+    combiner.cancel();
+  }, []);
+
+  // Count only what the combined file runs, from the resume point on
+  const totalPrints = printPlans.length;
+  const totalSeconds = getPlanSeconds(printPlans);
+  const totalLayers = printPlans.reduce(
+    (sum, plan) => sum + (plan.job.file.metadata.totalLayers ?? 0),
+    0,
+  );
+  const totalFilament = printPlans.reduce(
+    (sum, plan) => sum + getFilamentWeight(plan.job.file.metadata),
+    0,
+  );
 
   return (
     <div className="min-h-screen warm-ambient grain-texture relative">
@@ -179,6 +490,13 @@ function App() {
             />
           </div>
 
+          {/* Recent Jobs */}
+          {files.length === 0 && !processing.isProcessing && (
+            <div className="animate-rise" style={{ animationDelay: "0.15s" }}>
+              <RecentJobs onOpen={handleOpenJob} onImport={handleImportJob} />
+            </div>
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="cozy-card p-4 border-[var(--color-error)]/30 animate-rise">
@@ -230,6 +548,45 @@ function App() {
             </div>
           )}
 
+          {/* Notices */}
+          {notices.length > 0 && (
+            <div className="cozy-card p-4 border-[var(--color-warning)]/30 animate-rise">
+              <div className="flex items-start gap-3">
+                <div className="flex-grow min-w-0">
+                  <p className="text-sm font-medium text-[var(--color-warning)] mb-1">
+                    Worth knowing about your files
+                  </p>
+                  <ul className="text-sm text-[var(--color-text-secondary)] space-y-0.5">
+                    {notices.map((notice) => (
+                      <li key={notice}>{notice}</li>
+                    ))}
+                  </ul>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setNotices([])}
+                  className="text-[var(--color-text-muted)] hover:text-[var(--color-text-secondary)] transition-colors p-1 rounded-lg hover:bg-[var(--color-bg-surface)]"
+                  aria-label="Dismiss notices"
+                >
+                  <svg
+                    className="w-4 h-4"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                    aria-hidden="true"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M6 18L18 6M6 6l12 12"
+                    />
+                  </svg>
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Processing Indicator */}
           {processing.isProcessing && (
             <div className="cozy-card p-5 animate-rise">
@@ -241,6 +598,16 @@ function App() {
                 <span className="text-sm font-medium text-[var(--color-accent)]">
                   Working on it...
                 </span>
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="ml-auto px-3 py-1.5 rounded-lg text-xs font-medium text-[var(--color-text-secondary)]
+                           bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)]
+                           hover:border-[var(--color-border)] hover:text-[var(--color-text-primary)]
+                           transition-all duration-200"
+                >
+                  Cancel
+                </button>
               </div>
               <p className="text-sm text-[var(--color-text-secondary)] mb-3">
                 {processing.message}
@@ -260,13 +627,33 @@ function App() {
           <div className="animate-rise" style={{ animationDelay: "0.15s" }}>
             <FileList
               files={files}
+              compatibilityIssues={compatibilityIssues}
+              filamentChanges={
+                filamentChange === "off" ? new Map() : filamentChanges
+              }
               onReorder={handleReorder}
               onUpdateCopies={handleUpdateCopies}
+              onUpdateOverrides={handleUpdateOverrides}
               onRemove={handleRemove}
+              onPreview={setPreviewFileId}
               disabled={processing.isProcessing}
             />
           </div>
 
+          {/* Toolpath Preview */}
+          {previewFile && (
+            <div className="animate-rise">
+              <ToolpathPreview
+                key={previewFile.id}
+                file={previewFile}
+                files={files}
+                options={combineOptions}
+                loadToolpath={handleLoadToolpath}
+                onClose={() => setPreviewFileId(null)}
+              />
+            </div>
+          )}
+
           {/* Summary & Actions */}
           {files.length > 0 && (
             <div
@@ -275,7 +662,7 @@ function App() {
             >
               {/* Stats */}
               <div className="cozy-card p-5">
-                <div className="grid grid-cols-3 gap-4 text-center">
+                <div className="grid grid-cols-4 gap-4 text-center">
                   <div>
                     <p className="label-soft mb-1">Files</p>
                     <p className="font-display text-2xl font-semibold text-[var(--color-text-primary)]">
@@ -289,15 +676,24 @@ function App() {
                     </p>
                   </div>
                   <div>
-                    <p className="label-soft mb-1">Lines</p>
+                    <p className="label-soft mb-1">Layers</p>
                     <p className="font-display text-2xl font-semibold text-[var(--color-text-primary)]">
-                      {totalLines.toLocaleString()}
+                      {totalLayers.toLocaleString()}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="label-soft mb-1">Filament</p>
+                    <p className="font-display text-2xl font-semibold text-[var(--color-text-primary)]">
+                      {Math.round(totalFilament).toLocaleString()}
+                      <span className="text-sm text-[var(--color-text-muted)]">
+                        g
+                      </span>
                     </p>
                   </div>
                 </div>
 
                 {/* Time Estimate */}
-                {totalTime && (
+                {totalSeconds !== null && (
                   <div className="mt-4 pt-4 border-t border-[var(--color-border-subtle)] flex items-center justify-between">
                     <div className="flex items-center gap-2 text-[var(--color-text-muted)]">
                       <svg
@@ -317,89 +713,171 @@ function App() {
                       <span className="text-sm">Estimated print time</span>
                     </div>
                     <span className="font-display font-semibold text-[var(--color-accent)]">
-                      {totalTime}
+                      {formatSeconds(totalSeconds)}
                     </span>
                   </div>
                 )}
               </div>
 
-              {/* Profile Confirmation */}
-              <div className="cozy-card p-5">
-                <label className="flex items-start gap-4 cursor-pointer group">
-                  <div className="relative flex-shrink-0 mt-0.5">
+              {/* Pre-flight checks */}
+              <LintReport findings={lintFindings} />
+
+              {/* Timeline */}
+              <PrintTimeline
+                files={files}
+                options={combineOptions}
+                batchStart={batchStart}
+                onBatchStartChange={setBatchStart}
+                disabled={processing.isProcessing}
+              />
+
+              {/* Compatibility Override */}
+              {hasCompatibilityIssues && (
+                <div className="cozy-card p-5 border-[var(--color-error)]/30">
+                  <label className="flex items-start gap-4 cursor-pointer">
                     <input
                       type="checkbox"
-                      checked={profileConfirmed}
-                      onChange={(e) => setProfileConfirmed(e.target.checked)}
-                      className="peer sr-only"
+                      checked={compatibilityOverride}
+                      onChange={(e) =>
+                        setCompatibilityOverride(e.target.checked)
+                      }
+                      className="checkbox-cozy flex-shrink-0 mt-0.5"
                     />
-                    <div
-                      className="w-6 h-6 rounded-lg border-2 border-[var(--color-border)] bg-[var(--color-bg-base)]
-                                  peer-checked:border-[var(--color-accent)] peer-checked:bg-[var(--color-accent)]
-                                  group-hover:border-[var(--color-text-muted)]
-                                  transition-all duration-200 flex items-center justify-center"
-                    >
-                      <svg
-                        className="w-4 h-4 text-[var(--color-bg-deep)] opacity-0 peer-checked:opacity-100 transition-opacity duration-200"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                        aria-hidden="true"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={3}
-                          d="M5 13l4 4L19 7"
-                        />
-                      </svg>
+                    <div className="flex-grow">
+                      <p className="text-sm font-medium text-[var(--color-error)] mb-1">
+                        {compatibilityIssues.size === 1
+                          ? "1 file doesn't match the first file's setup"
+                          : `${compatibilityIssues.size} files don't match the first file's setup`}
+                      </p>
+                      <p className="text-sm text-[var(--color-text-muted)] leading-relaxed">
+                        Plates sliced for another printer, nozzle, bed or
+                        filament can crash the toolhead or fail to stick.
+                        Re-slice them for the same setup, or tick this box to
+                        combine them anyway.
+                      </p>
                     </div>
-                    <svg
-                      className={`absolute top-1 left-1 w-4 h-4 text-[var(--color-bg-deep)] transition-opacity duration-200 ${profileConfirmed ? "opacity-100" : "opacity-0"}`}
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                      aria-hidden="true"
+                  </label>
+                </div>
+              )}
+
+              {/* Ejection Check */}
+              <EjectionCheck files={files} macro={ejectionMacro} />
+
+              {/* Built-in Ejection */}
+              <EjectionMacroPicker
+                files={files}
+                macro={ejectionMacro}
+                onChange={setEjectionMacro}
+                disabled={processing.isProcessing}
+              />
+
+              {/* Optimize Order */}
+              <SequenceOptimizer
+                files={files}
+                batchStart={batchStart}
+                onBatchStartChange={setBatchStart}
+                onApply={handleReorder}
+                disabled={processing.isProcessing}
+              />
+
+              {/* AMS Slot Mapping */}
+              <FilamentMapping
+                files={files}
+                onUpdateSlot={handleUpdateFilamentSlot}
+                disabled={processing.isProcessing}
+              />
+
+              {/* Filament Changes */}
+              {filamentChanges.size > 0 && (
+                <div className="cozy-card p-5">
+                  <label className="block">
+                    <span className="block text-sm font-medium text-[var(--color-text-primary)] mb-1">
+                      {filamentChanges.size === 1
+                        ? "1 print needs a filament change"
+                        : `${filamentChanges.size} prints need a filament change`}
+                    </span>
+                    <span className="block text-sm text-[var(--color-text-muted)] leading-relaxed mb-3">
+                      Some files need other filament in a slot an earlier file
+                      used. Choose what the printer does before each of them;
+                      they're marked in the list above.
+                    </span>
+                    <select
+                      value={filamentChange}
+                      onChange={(e) =>
+                        setFilamentChange(e.target.value as FilamentChangeMode)
+                      }
+                      disabled={processing.isProcessing}
+                      className="w-full px-3 py-2 rounded-lg text-sm
+                               bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)]
+                               text-[var(--color-text-primary)] focus:outline-none focus:border-[var(--color-accent)]
+                               disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={3}
-                        d="M5 13l4 4L19 7"
-                      />
-                    </svg>
-                  </div>
+                      {Object.entries(FILAMENT_CHANGE_MODE_LABELS).map(
+                        ([mode, label]) => (
+                          <option key={mode} value={mode}>
+                            {label}
+                          </option>
+                        ),
+                      )}
+                    </select>
+                  </label>
+                </div>
+              )}
+
+              {/* Bed Offsets */}
+              <BedOffsetSettings
+                files={files}
+                options={bedOffset}
+                onChange={setBedOffset}
+                disabled={processing.isProcessing}
+              />
+
+              {/* Maintenance */}
+              <MaintenanceSettings
+                files={files}
+                rules={maintenance}
+                onChange={setMaintenance}
+                disabled={processing.isProcessing}
+              />
+
+              {/* Split Into Parts */}
+              <SplitSettings
+                files={files}
+                limits={splitLimits}
+                fromPrint={combineOptions.resume?.fromPrint}
+                onChange={setSplitLimits}
+                disabled={processing.isProcessing}
+              />
+
+              {/* Resume */}
+              <ResumeSettings
+                files={files}
+                resume={resume}
+                onChange={setResume}
+                macro={ejectionMacro}
+                disabled={processing.isProcessing}
+              />
+
+              {/* Calibrate Once */}
+              <div className="cozy-card p-5">
+                <label className="flex items-start gap-4 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={calibrateOnce}
+                    onChange={(e) => setCalibrateOnce(e.target.checked)}
+                    disabled={processing.isProcessing}
+                    className="checkbox-cozy flex-shrink-0 mt-0.5"
+                  />
                   <div className="flex-grow">
                     <p className="text-sm font-medium text-[var(--color-text-primary)] mb-1">
-                      I've installed the automation profile
+                      Calibrate once
                     </p>
                     <p className="text-sm text-[var(--color-text-muted)] leading-relaxed">
-                      Your sliced files need the correct start/end G-code for
-                      auto-ejection between prints.
+                      Only the first print runs bed leveling, vibration
+                      compensation, flow calibration and the purge line. Later
+                      prints still heat up and home. The combined file's header
+                      lists what was skipped.
                     </p>
-                    <a
-                      href="https://factoriandesigns.com/print-automation-bambu-lab-a1-a1-mini"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="inline-flex items-center gap-1.5 mt-2 text-sm text-[var(--color-accent)] hover:text-[var(--color-accent-hover)] transition-colors"
-                      onClick={(e) => e.stopPropagation()}
-                    >
-                      <span>Get the profiles from Factorian Designs</span>
-                      <svg
-                        className="w-3.5 h-3.5"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                        aria-hidden="true"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
-                        />
-                      </svg>
-                    </a>
                   </div>
                 </label>
               </div>
@@ -412,7 +890,8 @@ function App() {
                   disabled={
                     processing.isProcessing ||
                     files.length === 0 ||
-                    !profileConfirmed
+                    hasMissingEjection ||
+                    (hasCompatibilityIssues && !compatibilityOverride)
                   }
                   className="flex-grow py-4 px-6 rounded-xl font-semibold text-[var(--color-bg-deep)]
                            bg-gradient-to-b from-[var(--color-accent-hover)] to-[var(--color-accent)]
@@ -443,6 +922,21 @@ function App() {
                   </span>
                 </button>
 
+                <button
+                  type="button"
+                  onClick={handleExportJob}
+                  disabled={processing.isProcessing}
+                  title="Download this batch as a job file"
+                  className="py-4 px-5 rounded-xl font-medium text-[var(--color-text-secondary)]
+                           bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)]
+                           hover:border-[var(--color-border)] hover:text-[var(--color-text-primary)]
+                           hover:bg-[var(--color-bg-surface)]
+                           disabled:opacity-50 disabled:cursor-not-allowed
+                           transition-all duration-200"
+                >
+                  Save Job
+                </button>
+
                 <button
                   type="button"
                   onClick={handleClearAll}
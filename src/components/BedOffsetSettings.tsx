@@ -0,0 +1,156 @@
+import type { BedOffsetOptions, BedOffsetPattern, GCodeFile } from '../types';
+import {
+  BED_OFFSET_PATTERN_LABELS,
+  formatBedOffset,
+  getBedOffset,
+  isZeroOffset,
+} from '../utils/bedOffset';
+import { findPrinter } from '../utils/printers';
+import { expandPrintSequence } from '../utils/printSequence';
+
+interface RepeatedPlate {
+  /** The plate's first entry in the list. */
+  file: GCodeFile;
+  prints: number;
+}
+
+/** Plates printed more than once, counting every entry of the same plate. */
+function findRepeatedPlates(files: GCodeFile[]): RepeatedPlate[] {
+  const plates = new Map<string, RepeatedPlate>();
+  for (const job of expandPrintSequence(files)) {
+    const plate = plates.get(job.file.gcode);
+    if (plate) plate.prints++;
+    else plates.set(job.file.gcode, { file: job.file, prints: 1 });
+  }
+  return Array.from(plates.values()).filter((plate) => plate.prints > 1);
+}
+
+interface BedOffsetSettingsProps {
+  files: GCodeFile[];
+  options: BedOffsetOptions;
+  onChange: (options: BedOffsetOptions) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = `w-full px-3 py-2 rounded-lg text-sm
+  bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)]
+  text-[var(--color-text-primary)] focus:outline-none focus:border-[var(--color-accent)]
+  disabled:opacity-50 disabled:cursor-not-allowed`;
+
+export function BedOffsetSettings({
+  files,
+  options,
+  onChange,
+  disabled = false,
+}: BedOffsetSettingsProps) {
+  const isOn = options.pattern !== 'off';
+  const repeated = findRepeatedPlates(files);
+  // Plates that can't be checked against the bed are left where they are
+  const unchecked = repeated.filter(
+    ({ file }) =>
+      !file.scan.moveBounds ||
+      !file.profile.printerModel ||
+      !findPrinter(file.profile.printerModel),
+  );
+
+  return (
+    <details className="cozy-card p-5" open={isOn}>
+      <summary className="text-sm font-medium text-[var(--color-text-primary)] cursor-pointer">
+        Spread copies across the bed
+        {isOn && (
+          <span className="ml-2 text-xs font-semibold text-[var(--color-accent)]">
+            {options.stepMm} mm steps
+          </span>
+        )}
+      </summary>
+      <p className="text-sm text-[var(--color-text-muted)] leading-relaxed mt-2 mb-3">
+        Printing the same plate over and over in one spot wears through the
+        build plate's coating. Each further copy can be moved a little, as far
+        as the part and the travels around it stay on the bed. The first copy
+        always prints where it was sliced.
+      </p>
+
+      <div className="grid grid-cols-3 gap-3">
+        <label className="block col-span-2">
+          <span className="block text-xs text-[var(--color-text-muted)] mb-1">
+            Pattern
+          </span>
+          <select
+            value={options.pattern}
+            onChange={(e) =>
+              onChange({
+                ...options,
+                pattern: e.target.value as BedOffsetPattern,
+              })
+            }
+            disabled={disabled}
+            className={inputClassName}
+          >
+            {(
+              Object.entries(BED_OFFSET_PATTERN_LABELS) as [
+                BedOffsetPattern,
+                string,
+              ][]
+            ).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs text-[var(--color-text-muted)] mb-1">
+            Step (mm)
+          </span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={options.stepMm}
+            onChange={(e) =>
+              onChange({
+                ...options,
+                stepMm: Math.max(1, Number.parseInt(e.target.value, 10) || 1),
+              })
+            }
+            disabled={disabled || !isOn}
+            className={inputClassName}
+          />
+        </label>
+      </div>
+
+      {isOn && repeated.length > unchecked.length && (
+        <ul className="mt-3 space-y-1">
+          {repeated
+            .filter((plate) => !unchecked.includes(plate))
+            .map(({ file, prints }) => {
+              const offsets = Array.from({ length: prints }, (_, index) =>
+                getBedOffset(file, index, options),
+              ).filter((offset) => !isZeroOffset(offset));
+
+              return (
+                <li
+                  key={file.id}
+                  className="text-xs text-[var(--color-text-secondary)] truncate"
+                  title={offsets.map(formatBedOffset).join(', ')}
+                >
+                  {file.displayName}:{' '}
+                  {offsets.length > 0
+                    ? `${offsets.length} of ${prints} prints moved`
+                    : 'no room to move it'}
+                </li>
+              );
+            })}
+        </ul>
+      )}
+      {isOn && unchecked.length > 0 && (
+        <p className="mt-2 text-xs text-[var(--color-warning)]">
+          {unchecked.map(({ file }) => file.displayName).join(', ')}{' '}
+          {unchecked.length === 1 ? "doesn't" : "don't"} say which printer or
+          bed area {unchecked.length === 1 ? 'it uses' : 'they use'}, so{' '}
+          {unchecked.length === 1 ? 'it stays' : 'they stay'} put.
+        </p>
+      )}
+    </details>
+  );
+}
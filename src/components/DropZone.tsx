@@ -40,8 +40,7 @@ export function DropZone({ onFilesSelected, disabled = false }: DropZoneProps) {
       if (disabled) return;
 
       const files = Array.from(e.dataTransfer.files).filter(
-        (file) =>
-          file.name.endsWith('.gcode.3mf') || file.name.endsWith('.3mf'),
+        (file) => file.name.endsWith('.3mf') || file.name.endsWith('.gcode'),
       );
 
       if (files.length > 0) {
@@ -102,7 +101,7 @@ export function DropZone({ onFilesSelected, disabled = false }: DropZoneProps) {
           ref={fileInputRef}
           type="file"
           multiple
-          accept=".3mf,.gcode.3mf"
+          accept=".3mf,.gcode.3mf,.gcode"
           onChange={handleFileInput}
           className="hidden"
           disabled={disabled}
@@ -176,7 +175,7 @@ export function DropZone({ onFilesSelected, disabled = false }: DropZoneProps) {
               />
             </svg>
             <span className="text-xs font-medium text-[var(--color-text-muted)]">
-              .gcode.3mf files
+              .gcode.3mf or .gcode files
             </span>
           </div>
         </div>
@@ -0,0 +1,112 @@
+import type { EjectionMacro, EjectionStatus, GCodeFile } from '../types';
+
+interface EjectionCheckProps {
+  files: GCodeFile[];
+  /** The built-in macro that will clear parts between prints, if any. */
+  macro: EjectionMacro | null;
+}
+
+export const EJECTION_STATUS_LABELS: Record<EjectionStatus, string> = {
+  present: 'Ejection present',
+  missing: 'Ejection missing',
+  unknown: 'Ejection unknown',
+};
+
+export const EJECTION_STATUS_COLORS: Record<EjectionStatus, string> = {
+  present: 'text-[var(--color-success)]',
+  missing: 'text-[var(--color-error)]',
+  unknown: 'text-[var(--color-warning)]',
+};
+
+export function EjectionCheck({ files, macro }: EjectionCheckProps) {
+  const flaggedFiles = files.filter(
+    (file) => file.ejection.status !== 'present',
+  );
+  // The built-in macro clears every part, so missing routines don't block
+  const missingCount = macro
+    ? 0
+    : flaggedFiles.filter((file) => file.ejection.status === 'missing').length;
+
+  if (flaggedFiles.length === 0) {
+    return (
+      <div className="cozy-card p-5">
+        <p className="text-sm font-medium text-[var(--color-success)] mb-1">
+          Ejection routine found in every file
+        </p>
+        <p className="text-sm text-[var(--color-text-muted)] leading-relaxed">
+          Each plate cools the bed and clears the part before the next print
+          starts.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`cozy-card p-5 ${missingCount > 0 ? 'border-[var(--color-error)]/30' : 'border-[var(--color-warning)]/30'}`}
+    >
+      <p
+        className={`text-sm font-medium mb-1 ${missingCount > 0 ? 'text-[var(--color-error)]' : 'text-[var(--color-warning)]'}`}
+      >
+        {macro
+          ? 'Some files rely on the built-in ejection'
+          : missingCount > 0
+            ? "Some files can't eject their parts"
+            : "Some files couldn't be checked for ejection"}
+      </p>
+      <p className="text-sm text-[var(--color-text-muted)] leading-relaxed mb-3">
+        {macro
+          ? `${macro.name} v${macro.version} will be inserted between prints to clear these parts.`
+          : missingCount > 0
+            ? 'Re-slice these files with an automation profile before combining them, or pick a built-in ejection below.'
+            : 'Make sure these files were sliced with an automation profile before you start the batch.'}
+      </p>
+
+      <ul className="space-y-2">
+        {flaggedFiles.map((file) => (
+          <li key={file.id} className="text-sm">
+            <p className="flex items-center gap-2 min-w-0">
+              <span
+                className={`flex-shrink-0 text-xs font-semibold ${EJECTION_STATUS_COLORS[file.ejection.status]}`}
+              >
+                {EJECTION_STATUS_LABELS[file.ejection.status]}
+              </span>
+              <span
+                className="text-[var(--color-text-primary)] truncate"
+                title={file.displayName}
+              >
+                {file.displayName}
+              </span>
+            </p>
+            <p className="text-xs text-[var(--color-text-muted)] leading-relaxed">
+              {file.ejection.explanation}
+            </p>
+          </li>
+        ))}
+      </ul>
+
+      <a
+        href="https://factoriandesigns.com/print-automation-bambu-lab-a1-a1-mini"
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center gap-1.5 mt-3 text-sm text-[var(--color-accent)] hover:text-[var(--color-accent-hover)] transition-colors"
+      >
+        <span>Get the profiles from Factorian Designs</span>
+        <svg
+          className="w-3.5 h-3.5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
+          />
+        </svg>
+      </a>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useMemo } from 'react';
+import type { EjectionMacro, GCodeFile } from '../types';
+import {
+  EJECTION_MACROS,
+  findEjectionMacro,
+  findEjectionMacroForPrinter,
+  getEjectionMacroKey,
+  renderEjectionMacro,
+} from '../utils/ejectionMacros';
+import { normalizePrinterName } from '../utils/printers';
+
+interface EjectionMacroPickerProps {
+  files: GCodeFile[];
+  macro: EjectionMacro | null;
+  onChange: (macro: EjectionMacro | null) => void;
+  disabled?: boolean;
+}
+
+export function EjectionMacroPicker({
+  files,
+  macro,
+  onChange,
+  disabled = false,
+}: EjectionMacroPickerProps) {
+  const printerModel = files[0]?.profile.printerModel ?? null;
+  const recommended = findEjectionMacroForPrinter(printerModel);
+  const isMismatched =
+    macro !== null &&
+    printerModel !== null &&
+    macro.printerModel !== normalizePrinterName(printerModel);
+
+  const preview = useMemo(
+    () => (macro && files[0] ? renderEjectionMacro(macro, files[0]) : null),
+    [macro, files],
+  );
+
+  return (
+    <div className="cozy-card p-5">
+      <label className="block">
+        <span className="block text-sm font-medium text-[var(--color-text-primary)] mb-1">
+          Built-in ejection
+        </span>
+        <span className="block text-sm text-[var(--color-text-muted)] leading-relaxed mb-3">
+          Inserts a cooldown, push-off and re-home sequence between prints, so
+          files sliced without an automation profile can be combined too.
+        </span>
+        <select
+          value={macro ? getEjectionMacroKey(macro) : ''}
+          onChange={(e) => onChange(findEjectionMacro(e.target.value))}
+          disabled={disabled}
+          className="w-full px-3 py-2 rounded-lg text-sm
+                     bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)]
+                     text-[var(--color-text-primary)] focus:outline-none focus:border-[var(--color-accent)]
+                     disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <option value="">None — use the ejection in my files</option>
+          {EJECTION_MACROS.map((option) => (
+            <option
+              key={getEjectionMacroKey(option)}
+              value={getEjectionMacroKey(option)}
+            >
+              {option.name} v{option.version}
+              {option === recommended ? ' (matches your printer)' : ''}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {isMismatched && (
+        <p className="text-xs text-[var(--color-warning)] mt-2">
+          This macro is for the {macro.printerModel}, but the batch was sliced
+          for the {normalizePrinterName(printerModel)}.
+        </p>
+      )}
+
+      {preview && (
+        <details className="mt-3">
+          <summary className="text-sm text-[var(--color-accent)] cursor-pointer">
+            Preview G-code
+          </summary>
+          <pre className="mt-2 p-3 rounded-lg bg-[var(--color-bg-base)] text-xs text-[var(--color-text-secondary)] overflow-x-auto max-h-64">
+            {preview}
+          </pre>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import type { GCodeFile } from '../types';
+import {
+  AMS_SLOT_COUNT,
+  buildSlotLayout,
+  describeFilament,
+  formatSlot,
+  getFilamentSlot,
+} from '../utils/filamentSlots';
+
+interface FilamentMappingProps {
+  files: GCodeFile[];
+  onUpdateSlot: (id: string, filamentId: number, slot: number) => void;
+  disabled?: boolean;
+}
+
+const SLOTS = Array.from({ length: AMS_SLOT_COUNT }, (_, i) => i + 1);
+
+export function FilamentMapping({
+  files,
+  onUpdateSlot,
+  disabled = false,
+}: FilamentMappingProps) {
+  const mappedFiles = files.filter((file) => file.filaments.length > 0);
+  if (mappedFiles.length === 0) return null;
+
+  const layout = buildSlotLayout(mappedFiles);
+  const conflicts = Array.from(layout).filter(
+    ([, filaments]) => filaments.length > 1,
+  );
+
+  return (
+    <details
+      className={`cozy-card p-5 ${conflicts.length > 0 ? 'border-[var(--color-warning)]/30' : ''}`}
+      open={conflicts.length > 0}
+    >
+      <summary className="text-sm font-medium text-[var(--color-text-primary)] cursor-pointer">
+        AMS slot mapping
+        {conflicts.length > 0 && (
+          <span className="ml-2 text-xs font-semibold text-[var(--color-warning)]">
+            {conflicts.length === 1
+              ? '1 slot conflict'
+              : `${conflicts.length} slot conflicts`}
+          </span>
+        )}
+      </summary>
+      <p className="text-sm text-[var(--color-text-muted)] leading-relaxed mt-2 mb-4">
+        Choose which AMS slot each plate's filaments come from. Tool changes in
+        the combined file are rewritten to match.
+      </p>
+
+      <div className="space-y-4">
+        {mappedFiles.map((file) => (
+          <div key={file.id}>
+            <p
+              className="text-sm text-[var(--color-text-primary)] truncate mb-1.5"
+              title={file.displayName}
+            >
+              {file.displayName}
+            </p>
+            <ul className="space-y-1.5">
+              {file.filaments.map((filament) => (
+                <li key={filament.id} className="flex items-center gap-2">
+                  <span
+                    className="flex-shrink-0 w-3.5 h-3.5 rounded-full border border-[var(--color-border)]"
+                    style={{ backgroundColor: filament.color || 'transparent' }}
+                  />
+                  <span className="flex-grow min-w-0 text-xs text-[var(--color-text-secondary)] truncate">
+                    {formatSlot(filament.id)} ·{' '}
+                    {describeFilament(filament) || `Filament ${filament.id}`}
+                  </span>
+                  <select
+                    value={getFilamentSlot(file, filament.id)}
+                    onChange={(e) =>
+                      onUpdateSlot(
+                        file.id,
+                        filament.id,
+                        Number.parseInt(e.target.value, 10),
+                      )
+                    }
+                    disabled={disabled}
+                    aria-label={`AMS slot for filament ${filament.id} of ${file.displayName}`}
+                    className="flex-shrink-0 px-2 py-1 rounded-md text-xs
+                               bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)]
+                               text-[var(--color-text-primary)] focus:outline-none focus:border-[var(--color-accent)]
+                               disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {SLOTS.map((slot) => (
+                      <option key={slot} value={slot}>
+                        Slot {formatSlot(slot)}
+                      </option>
+                    ))}
+                  </select>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-[var(--color-border-subtle)]">
+        <p className="text-xs font-medium text-[var(--color-text-secondary)] mb-1.5">
+          Load the AMS like this
+        </p>
+        <ul className="space-y-0.5">
+          {Array.from(layout).map(([slot, filaments]) => (
+            <li
+              key={slot}
+              className={`text-xs ${filaments.length > 1 ? 'text-[var(--color-warning)]' : 'text-[var(--color-text-muted)]'}`}
+            >
+              {formatSlot(slot)}: {filaments.join(' / ')}
+              {filaments.length > 1 && ' — plates disagree on this slot'}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </details>
+  );
+}
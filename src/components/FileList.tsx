@@ -1,19 +1,38 @@
 import { useCallback, useState } from 'react';
-import type { GCodeFile } from '../types';
+import type { CompatibilityIssue, GCodeFile, PrintOverrides } from '../types';
+import { describeCompatibilityIssue } from '../utils/compatibility';
+import type { FilamentChange } from '../utils/filamentChange';
+import { formatSeconds } from '../utils/fileProcessor';
+import { getFilamentWeight, getPrintSeconds } from '../utils/gcodeHeader';
+import { describeOverrides, hasOverrides } from '../utils/printOverrides';
+import {
+  EJECTION_STATUS_COLORS,
+  EJECTION_STATUS_LABELS,
+} from './EjectionCheck';
+import { PrintOverridesEditor } from './PrintOverridesEditor';
 
 interface FileListProps {
   files: GCodeFile[];
+  compatibilityIssues: Map<string, CompatibilityIssue[]>;
+  /** Filament changes the combined file stops for, keyed by file id. */
+  filamentChanges: Map<string, FilamentChange>;
   onReorder: (files: GCodeFile[]) => void;
   onUpdateCopies: (id: string, copies: number) => void;
+  onUpdateOverrides: (id: string, overrides: PrintOverrides) => void;
   onRemove: (id: string) => void;
+  onPreview: (id: string) => void;
   disabled?: boolean;
 }
 
 interface FileItemProps {
   file: GCodeFile;
   index: number;
+  issues: CompatibilityIssue[];
+  filamentChange: FilamentChange | null;
   onUpdateCopies: (id: string, copies: number) => void;
+  onUpdateOverrides: (id: string, overrides: PrintOverrides) => void;
   onRemove: (id: string) => void;
+  onPreview: (id: string) => void;
   onDragStart: (index: number) => void;
   onDragOver: (index: number) => void;
   onDragEnd: () => void;
@@ -25,8 +44,12 @@ interface FileItemProps {
 function FileItem({
   file,
   index,
+  issues,
+  filamentChange,
   onUpdateCopies,
+  onUpdateOverrides,
   onRemove,
+  onPreview,
   onDragStart,
   onDragOver,
   onDragEnd,
@@ -34,7 +57,22 @@ function FileItem({
   dragOverIndex,
   disabled = false,
 }: FileItemProps) {
+  const [isEditingOverrides, setIsEditingOverrides] = useState(false);
   const isDropTarget = dragOverIndex === index;
+  const overridden = hasOverrides(file.overrides);
+  const { metadata } = file;
+  const printSeconds = getPrintSeconds(metadata);
+  const filamentWeight = getFilamentWeight(metadata);
+
+  const details: string[] = [];
+  if (printSeconds !== null) details.push(formatSeconds(printSeconds));
+  if (metadata.totalLayers !== null) {
+    details.push(`${metadata.totalLayers.toLocaleString()} layers`);
+  } else {
+    details.push(`${file.lineCount.toLocaleString()} lines`);
+  }
+  if (metadata.maxZHeight !== null) details.push(`${metadata.maxZHeight} mm`);
+  if (filamentWeight > 0) details.push(`${filamentWeight.toFixed(1)} g`);
 
   const handleCopiesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = Math.max(
@@ -58,7 +96,8 @@ function FileItem({
 
   return (
     <li
-      draggable={!disabled}
+      // Dragging would swallow text selection in the override inputs
+      draggable={!disabled && !isEditingOverrides}
       onDragStart={(e) => {
         e.dataTransfer.effectAllowed = 'move';
         onDragStart(index);
@@ -102,6 +141,16 @@ function FileItem({
         </span>
       </div>
 
+      {/* Thumbnail */}
+      {file.thumbnail && (
+        <img
+          src={file.thumbnail}
+          alt=""
+          className="flex-shrink-0 w-12 h-12 rounded-lg bg-[var(--color-bg-base)] border border-[var(--color-border-subtle)] object-contain"
+          draggable={false}
+        />
+      )}
+
       {/* File Info */}
       <div className="flex-grow min-w-0">
         <p
@@ -111,18 +160,57 @@ function FileItem({
           {file.displayName}
         </p>
         <div className="flex items-center gap-2 mt-0.5">
-          <span className="text-xs text-[var(--color-text-muted)]">
-            {file.lineCount.toLocaleString()} lines
-          </span>
-          {file.estimatedTime && (
-            <>
-              <span className="text-[var(--color-border)]">·</span>
+          {details.map((detail, detailIndex) => (
+            <span key={detail} className="flex items-center gap-2">
+              {detailIndex > 0 && (
+                <span className="text-[var(--color-border)]">·</span>
+              )}
               <span className="text-xs text-[var(--color-text-muted)]">
-                {file.estimatedTime}
+                {detail}
               </span>
-            </>
-          )}
+            </span>
+          ))}
+          <span className="text-[var(--color-border)]">·</span>
+          <span
+            className={`text-xs ${EJECTION_STATUS_COLORS[file.ejection.status]}`}
+            title={file.ejection.explanation}
+          >
+            {EJECTION_STATUS_LABELS[file.ejection.status]}
+          </span>
         </div>
+        {overridden && !isEditingOverrides && (
+          <p className="mt-1.5 text-xs text-[var(--color-accent)] truncate">
+            {describeOverrides(file.overrides).join(' · ')}
+          </p>
+        )}
+        {isEditingOverrides && (
+          <PrintOverridesEditor
+            overrides={file.overrides}
+            onChange={(overrides) => onUpdateOverrides(file.id, overrides)}
+            disabled={disabled}
+          />
+        )}
+        {filamentChange && (
+          <p
+            className="mt-1.5 text-xs text-[var(--color-warning)] truncate"
+            title={`${filamentChange.from} → ${filamentChange.to}`}
+          >
+            Filament change before this print: load {filamentChange.to}
+          </p>
+        )}
+        {issues.length > 0 && (
+          <ul className="mt-1.5 space-y-0.5">
+            {issues.map((issue) => (
+              <li
+                key={issue.field}
+                className="text-xs text-[var(--color-error)] truncate"
+                title={describeCompatibilityIssue(issue)}
+              >
+                {describeCompatibilityIssue(issue)}
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
 
       {/* Copies Control */}
@@ -192,6 +280,68 @@ function FileItem({
         </button>
       </div>
 
+      {/* Overrides Button */}
+      <button
+        type="button"
+        onClick={() => setIsEditingOverrides((editing) => !editing)}
+        className={`flex-shrink-0 w-9 h-9 rounded-lg flex items-center justify-center
+                   hover:text-[var(--color-accent)] hover:bg-[var(--color-accent)]/10
+                   transition-all duration-150 ${
+                     overridden || isEditingOverrides
+                       ? 'text-[var(--color-accent)]'
+                       : 'text-[var(--color-text-muted)]'
+                   }`}
+        aria-label={`Adjust speed, flow and temperatures of ${file.displayName}`}
+        aria-expanded={isEditingOverrides}
+      >
+        <svg
+          className="w-4 h-4"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={1.5}
+            d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4"
+          />
+        </svg>
+      </button>
+
+      {/* Preview Button */}
+      <button
+        type="button"
+        onClick={() => onPreview(file.id)}
+        className="flex-shrink-0 w-9 h-9 rounded-lg flex items-center justify-center
+                   text-[var(--color-text-muted)] hover:text-[var(--color-accent)]
+                   hover:bg-[var(--color-accent)]/10
+                   transition-all duration-150"
+        aria-label={`Preview the toolpath of ${file.displayName}`}
+      >
+        <svg
+          className="w-4 h-4"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={1.5}
+            d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+          />
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={1.5}
+            d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+          />
+        </svg>
+      </button>
+
       {/* Delete Button */}
       <button
         type="button"
@@ -225,9 +375,13 @@ function FileItem({
 
 export function FileList({
   files,
+  compatibilityIssues,
+  filamentChanges,
   onReorder,
   onUpdateCopies,
+  onUpdateOverrides,
   onRemove,
+  onPreview,
   disabled = false,
 }: FileListProps) {
   const [dragIndex, setDragIndex] = useState<number | null>(null);
@@ -290,8 +444,12 @@ export function FileList({
             key={file.id}
             file={file}
             index={index}
+            issues={compatibilityIssues.get(file.id) ?? []}
+            filamentChange={filamentChanges.get(file.id) ?? null}
             onUpdateCopies={onUpdateCopies}
+            onUpdateOverrides={onUpdateOverrides}
             onRemove={onRemove}
+            onPreview={onPreview}
             onDragStart={handleDragStart}
             onDragOver={handleDragOver}
             onDragEnd={handleDragEnd}
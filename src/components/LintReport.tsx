@@ -0,0 +1,69 @@
+import type { LintFinding, LintSeverity } from '../types';
+import { LINT_RULE_LABELS } from '../utils/gcodeLinter';
+
+interface LintReportProps {
+  findings: LintFinding[];
+}
+
+const SEVERITY_COLORS: Record<LintSeverity, string> = {
+  error: 'text-[var(--color-error)]',
+  warning: 'text-[var(--color-warning)]',
+  info: 'text-[var(--color-text-muted)]',
+};
+
+export function LintReport({ findings }: LintReportProps) {
+  if (findings.length === 0) {
+    return (
+      <div className="cozy-card p-5">
+        <p className="text-sm font-medium text-[var(--color-success)] mb-1">
+          Pre-flight checks passed
+        </p>
+        <p className="text-sm text-[var(--color-text-muted)] leading-relaxed">
+          Every print ends cleanly, stays on the bed and hands the printer over
+          to the next one in a known state.
+        </p>
+      </div>
+    );
+  }
+
+  const errorCount = findings.filter(
+    (finding) => finding.severity === 'error',
+  ).length;
+
+  return (
+    <div
+      className={`cozy-card p-5 ${errorCount > 0 ? 'border-[var(--color-error)]/30' : 'border-[var(--color-warning)]/30'}`}
+    >
+      <p
+        className={`text-sm font-medium mb-1 ${errorCount > 0 ? 'text-[var(--color-error)]' : 'text-[var(--color-warning)]'}`}
+      >
+        {errorCount > 0
+          ? `Pre-flight checks found ${errorCount} problem${errorCount !== 1 ? 's' : ''}`
+          : 'Pre-flight checks found things to look at'}
+      </p>
+      <p className="text-sm text-[var(--color-text-muted)] leading-relaxed mb-3">
+        {errorCount > 0
+          ? 'The combined file would likely fail or damage a print as it stands. Fix these before you start the batch.'
+          : "The batch will run, but it may not go the way you'd expect."}
+      </p>
+
+      <ul className="space-y-2">
+        {findings.map((finding, index) => (
+          <li
+            key={`${finding.rule}-${finding.fileId}-${index}`}
+            className="text-sm"
+          >
+            <span
+              className={`mr-2 text-xs font-semibold ${SEVERITY_COLORS[finding.severity]}`}
+            >
+              {LINT_RULE_LABELS[finding.rule]}
+            </span>
+            <span className="text-[var(--color-text-secondary)]">
+              {finding.message}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
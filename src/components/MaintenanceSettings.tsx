@@ -0,0 +1,401 @@
+import { useEffect, useState } from 'react';
+import type {
+  GCodeFile,
+  MaintenanceBlock,
+  MaintenanceRule,
+  MaintenanceTrigger,
+} from '../types';
+import { formatSeconds } from '../utils/fileProcessor';
+import {
+  deleteMaintenanceBlock,
+  listMaintenanceBlocks,
+  saveMaintenanceBlock,
+} from '../utils/jobStorage';
+import {
+  createMaintenanceId,
+  getMaintenanceSeconds,
+  isBuiltInBlock,
+  MAINTENANCE_BLOCKS,
+  MAINTENANCE_TRIGGER_LABELS,
+  scheduleMaintenance,
+} from '../utils/maintenance';
+
+interface MaintenanceSettingsProps {
+  files: GCodeFile[];
+  rules: MaintenanceRule[];
+  onChange: (rules: MaintenanceRule[]) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = `w-full px-3 py-2 rounded-lg text-sm
+  bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)]
+  text-[var(--color-text-primary)] focus:outline-none focus:border-[var(--color-accent)]
+  disabled:opacity-50 disabled:cursor-not-allowed`;
+
+const linkButtonClassName = `text-xs text-[var(--color-text-muted)] hover:text-[var(--color-accent)]
+  disabled:opacity-40 disabled:cursor-not-allowed transition-colors`;
+
+function BlockEditor({
+  block,
+  onSave,
+  onCancel,
+}: {
+  block: MaintenanceBlock;
+  onSave: (block: MaintenanceBlock) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState(block);
+  const isValid = draft.name.trim() !== '' && draft.gcode.trim() !== '';
+
+  return (
+    <div className="mt-2 p-3 rounded-lg bg-[var(--color-bg-base)] border border-[var(--color-border-subtle)] space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        <label className="block col-span-2">
+          <span className="block text-xs text-[var(--color-text-muted)] mb-1">
+            Name
+          </span>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-[var(--color-text-muted)] mb-1">
+            Takes (min)
+          </span>
+          <input
+            type="number"
+            min={0}
+            value={draft.minutes}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                minutes: Math.max(0, Number.parseFloat(e.target.value) || 0),
+              })
+            }
+            className={inputClassName}
+          />
+        </label>
+      </div>
+      <label className="block">
+        <span className="block text-xs text-[var(--color-text-muted)] mb-1">
+          G-code
+        </span>
+        <textarea
+          value={draft.gcode}
+          onChange={(e) => setDraft({ ...draft, gcode: e.target.value })}
+          rows={8}
+          spellCheck={false}
+          className={`${inputClassName} font-mono text-xs`}
+        />
+      </label>
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className={linkButtonClassName}
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onSave({ ...draft, name: draft.name.trim() })}
+          disabled={!isValid}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium bg-[var(--color-accent-dim)] text-[var(--color-accent)] border border-[var(--color-accent)]/40 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Save block
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function MaintenanceSettings({
+  files,
+  rules,
+  onChange,
+  disabled = false,
+}: MaintenanceSettingsProps) {
+  const [library, setLibrary] = useState<MaintenanceBlock[]>([]);
+  const [editing, setEditing] = useState<MaintenanceBlock | null>(null);
+
+  useEffect(() => {
+    // Without IndexedDB there are just the built-in blocks
+    listMaintenanceBlocks()
+      .then(setLibrary)
+      .catch(() => setLibrary([]));
+  }, []);
+
+  const blocks = [...MAINTENANCE_BLOCKS, ...library];
+  // Rules from a job saved in another browser may use blocks not stored here
+  const choices = [
+    ...blocks,
+    ...rules
+      .map((rule) => rule.block)
+      .filter(
+        (block, index, all) =>
+          !blocks.some((known) => known.id === block.id) &&
+          all.findIndex((other) => other.id === block.id) === index,
+      ),
+  ];
+  const scheduled = Array.from(
+    scheduleMaintenance(files, rules).values(),
+  ).flat();
+
+  const updateRule = (id: string, changes: Partial<MaintenanceRule>) => {
+    onChange(
+      rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)),
+    );
+  };
+
+  const addRule = () => {
+    onChange([
+      ...rules,
+      {
+        id: createMaintenanceId(),
+        block: MAINTENANCE_BLOCKS[0],
+        trigger: 'prints',
+        every: 10,
+      },
+    ]);
+  };
+
+  const handleSave = (block: MaintenanceBlock) => {
+    setLibrary((prev) =>
+      [...prev.filter((saved) => saved.id !== block.id), block].sort((a, b) =>
+        a.name.localeCompare(b.name),
+      ),
+    );
+    saveMaintenanceBlock(block).catch(() => {});
+    // Rules pick up the edited block straight away
+    onChange(
+      rules.map((rule) =>
+        rule.block.id === block.id ? { ...rule, block } : rule,
+      ),
+    );
+    setEditing(null);
+  };
+
+  const handleDelete = (block: MaintenanceBlock) => {
+    setLibrary((prev) => prev.filter((saved) => saved.id !== block.id));
+    deleteMaintenanceBlock(block.id).catch(() => {});
+    onChange(rules.filter((rule) => rule.block.id !== block.id));
+  };
+
+  return (
+    <details className="cozy-card p-5" open={rules.length > 0}>
+      <summary className="text-sm font-medium text-[var(--color-text-primary)] cursor-pointer">
+        Periodic maintenance
+        {rules.length > 0 && (
+          <span className="ml-2 text-xs font-semibold text-[var(--color-accent)]">
+            {scheduled.length} stop{scheduled.length !== 1 ? 's' : ''}
+          </span>
+        )}
+      </summary>
+      <p className="text-sm text-[var(--color-text-muted)] leading-relaxed mt-2 mb-3">
+        Run a wipe, purge or re-level every so often instead of before every
+        part. Blocks run after the previous part has been ejected and before any
+        filament change.
+      </p>
+
+      {rules.length > 0 && (
+        <ul className="space-y-2 mb-3">
+          {rules.map((rule) => (
+            <li key={rule.id} className="flex items-center gap-2">
+              <select
+                value={rule.block.id}
+                onChange={(e) => {
+                  const block = choices.find(
+                    (choice) => choice.id === e.target.value,
+                  );
+                  if (block) updateRule(rule.id, { block });
+                }}
+                disabled={disabled}
+                className={`${inputClassName} flex-grow min-w-0`}
+                aria-label="Maintenance block"
+              >
+                {choices.map((block) => (
+                  <option key={block.id} value={block.id}>
+                    {block.name}
+                  </option>
+                ))}
+              </select>
+              <span className="flex-shrink-0 text-xs text-[var(--color-text-muted)]">
+                every
+              </span>
+              <input
+                type="number"
+                min={rule.trigger === 'prints' ? 1 : 0.5}
+                step={rule.trigger === 'prints' ? 1 : 0.5}
+                value={rule.every}
+                onChange={(e) =>
+                  updateRule(rule.id, {
+                    every: Math.max(
+                      rule.trigger === 'prints' ? 1 : 0.5,
+                      Number.parseFloat(e.target.value) || 1,
+                    ),
+                  })
+                }
+                disabled={disabled}
+                className={`${inputClassName} w-20 flex-shrink-0`}
+                aria-label="Interval"
+              />
+              <select
+                value={rule.trigger}
+                onChange={(e) => {
+                  const trigger = e.target.value as MaintenanceTrigger;
+                  updateRule(rule.id, {
+                    trigger,
+                    every:
+                      trigger === 'prints'
+                        ? Math.max(1, Math.round(rule.every))
+                        : rule.every,
+                  });
+                }}
+                disabled={disabled}
+                className={`${inputClassName} w-40 flex-shrink-0`}
+                aria-label="Counted in"
+              >
+                {(
+                  Object.entries(MAINTENANCE_TRIGGER_LABELS) as [
+                    MaintenanceTrigger,
+                    string,
+                  ][]
+                ).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() =>
+                  onChange(rules.filter((other) => other.id !== rule.id))
+                }
+                disabled={disabled}
+                className="flex-shrink-0 p-1.5 rounded-lg text-[var(--color-text-muted)] hover:text-[var(--color-error)] disabled:opacity-40"
+                aria-label={`Remove ${rule.block.name}`}
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                  aria-hidden="true"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <button
+          type="button"
+          onClick={addRule}
+          disabled={disabled}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium text-[var(--color-text-secondary)]
+                     bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)]
+                     hover:border-[var(--color-border)] hover:text-[var(--color-text-primary)]
+                     disabled:opacity-50 disabled:cursor-not-allowed
+                     transition-all duration-200"
+        >
+          Add a rule
+        </button>
+        {scheduled.length > 0 && (
+          <span className="text-xs text-[var(--color-text-muted)]">
+            Adds about {formatSeconds(getMaintenanceSeconds(scheduled))}
+          </span>
+        )}
+      </div>
+
+      <details className="mt-4">
+        <summary className="text-xs font-medium text-[var(--color-text-secondary)] cursor-pointer">
+          Block library
+        </summary>
+        <ul className="mt-2 space-y-1">
+          {blocks.map((block) => (
+            <li
+              key={block.id}
+              className="flex items-center gap-3 text-xs text-[var(--color-text-secondary)]"
+            >
+              <span className="flex-grow truncate" title={block.gcode}>
+                {block.name}
+                <span className="text-[var(--color-text-muted)]">
+                  {' '}
+                  · {block.minutes} min
+                  {isBuiltInBlock(block) && ' · built in'}
+                </span>
+              </span>
+              {isBuiltInBlock(block) ? (
+                <button
+                  type="button"
+                  onClick={() =>
+                    setEditing({
+                      ...block,
+                      id: createMaintenanceId(),
+                      name: `${block.name} (copy)`,
+                    })
+                  }
+                  className={linkButtonClassName}
+                >
+                  Copy
+                </button>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => setEditing(block)}
+                    className={linkButtonClassName}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(block)}
+                    disabled={disabled}
+                    className={linkButtonClassName}
+                  >
+                    Delete
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+        {editing ? (
+          <BlockEditor
+            key={editing.id}
+            block={editing}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() =>
+              setEditing({
+                id: createMaintenanceId(),
+                name: '',
+                gcode: '',
+                minutes: 2,
+              })
+            }
+            className={`${linkButtonClassName} mt-2`}
+          >
+            New block…
+          </button>
+        )}
+      </details>
+    </details>
+  );
+}
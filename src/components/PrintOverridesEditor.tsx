@@ -0,0 +1,173 @@
+import type { PrintOverrides } from '../types';
+import {
+  hasOverrides,
+  MAX_TEMP_OFFSET,
+  NO_OVERRIDES,
+  SPEED_PROFILES,
+} from '../utils/printOverrides';
+
+interface PrintOverridesEditorProps {
+  overrides: PrintOverrides;
+  onChange: (overrides: PrintOverrides) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = `w-full px-2 py-1.5 rounded-lg text-xs
+  bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)]
+  text-[var(--color-text-primary)] focus:outline-none focus:border-[var(--color-accent)]
+  disabled:opacity-50 disabled:cursor-not-allowed`;
+
+const labelClassName = 'block text-xs text-[var(--color-text-muted)] mb-1';
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/** Empty means "as sliced". */
+function parsePercent(text: string, min: number, max: number): number | null {
+  const value = Number.parseInt(text, 10);
+  return Number.isFinite(value) ? clamp(value, min, max) : null;
+}
+
+function parseTempOffset(text: string): number {
+  const value = Number.parseInt(text, 10);
+  return Number.isFinite(value)
+    ? clamp(value, -MAX_TEMP_OFFSET, MAX_TEMP_OFFSET)
+    : 0;
+}
+
+export function PrintOverridesEditor({
+  overrides,
+  onChange,
+  disabled = false,
+}: PrintOverridesEditorProps) {
+  const profile = SPEED_PROFILES.find(
+    ({ percent }) => percent === overrides.speedPercent,
+  );
+
+  return (
+    <div className="mt-2 p-3 rounded-lg bg-[var(--color-bg-base)] border border-[var(--color-border-subtle)]">
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+        <label className="block">
+          <span className={labelClassName}>Speed profile</span>
+          <select
+            value={
+              overrides.speedPercent === null
+                ? ''
+                : String(profile?.percent ?? 'custom')
+            }
+            onChange={(e) =>
+              onChange({
+                ...overrides,
+                speedPercent:
+                  e.target.value === ''
+                    ? null
+                    : Number.parseInt(e.target.value, 10),
+              })
+            }
+            disabled={disabled}
+            className={inputClassName}
+          >
+            <option value="">As sliced</option>
+            {SPEED_PROFILES.map(({ label, percent }) => (
+              <option key={percent} value={percent}>
+                {label} ({percent}%)
+              </option>
+            ))}
+            {overrides.speedPercent !== null && !profile && (
+              <option value="custom" disabled>
+                Custom
+              </option>
+            )}
+          </select>
+        </label>
+        <label className="block">
+          <span className={labelClassName}>Speed %</span>
+          <input
+            type="number"
+            min={10}
+            max={300}
+            placeholder="100"
+            value={overrides.speedPercent ?? ''}
+            onChange={(e) =>
+              onChange({
+                ...overrides,
+                speedPercent: parsePercent(e.target.value, 10, 300),
+              })
+            }
+            disabled={disabled}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block">
+          <span className={labelClassName}>Flow %</span>
+          <input
+            type="number"
+            min={50}
+            max={150}
+            placeholder="100"
+            value={overrides.flowPercent ?? ''}
+            onChange={(e) =>
+              onChange({
+                ...overrides,
+                flowPercent: parsePercent(e.target.value, 50, 150),
+              })
+            }
+            disabled={disabled}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block">
+          <span className={labelClassName}>Nozzle °C</span>
+          <input
+            type="number"
+            min={-MAX_TEMP_OFFSET}
+            max={MAX_TEMP_OFFSET}
+            step={5}
+            value={overrides.nozzleTempOffset}
+            onChange={(e) =>
+              onChange({
+                ...overrides,
+                nozzleTempOffset: parseTempOffset(e.target.value),
+              })
+            }
+            disabled={disabled}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block">
+          <span className={labelClassName}>Bed °C</span>
+          <input
+            type="number"
+            min={-MAX_TEMP_OFFSET}
+            max={MAX_TEMP_OFFSET}
+            step={5}
+            value={overrides.bedTempOffset}
+            onChange={(e) =>
+              onChange({
+                ...overrides,
+                bedTempOffset: parseTempOffset(e.target.value),
+              })
+            }
+            disabled={disabled}
+            className={inputClassName}
+          />
+        </label>
+      </div>
+      <div className="flex items-center justify-between gap-3 mt-2">
+        <p className="text-xs text-[var(--color-text-muted)]">
+          Applies to this plate only; the next print runs at 100% speed and flow
+          again. Temperatures shift every heater target before the end G-code.
+        </p>
+        <button
+          type="button"
+          onClick={() => onChange(NO_OVERRIDES)}
+          disabled={disabled || !hasOverrides(overrides)}
+          className="flex-shrink-0 text-xs text-[var(--color-text-muted)] hover:text-[var(--color-accent)] disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import type { CombineOptions, GCodeFile } from '../types';
+import { formatClockTime, parseDateTimeInputValue } from '../utils/clock';
+import { formatSeconds } from '../utils/fileProcessor';
+import { buildTimeline } from '../utils/timeline';
+
+interface PrintTimelineProps {
+  files: GCodeFile[];
+  options: CombineOptions;
+  /** Batch start as a `datetime-local` value. */
+  batchStart: string;
+  onBatchStartChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+export function PrintTimeline({
+  files,
+  options,
+  batchStart,
+  onBatchStartChange,
+  disabled = false,
+}: PrintTimelineProps) {
+  const start = parseDateTimeInputValue(batchStart);
+  const entries = buildTimeline(files, options, start);
+  if (entries.length === 0) return null;
+
+  const finish = entries[entries.length - 1].end;
+  const span = Math.max(finish.getTime() - start.getTime(), 1);
+  const toPercent = (date: Date) =>
+    ((date.getTime() - start.getTime()) / span) * 100;
+  const missingEstimates = entries.some((entry) => !entry.hasEstimate);
+
+  return (
+    <details className="cozy-card p-5">
+      <summary className="text-sm font-medium text-[var(--color-text-primary)] cursor-pointer">
+        Timeline
+        <span className="ml-2 text-xs text-[var(--color-text-muted)]">
+          done around {formatClockTime(finish, start)}
+        </span>
+      </summary>
+      <p className="text-sm text-[var(--color-text-muted)] leading-relaxed mt-2 mb-3">
+        When each print should start and finish, including time to cool and
+        clear the bed, heat up and swap filament.
+      </p>
+
+      <label className="block mb-4">
+        <span className="block text-xs text-[var(--color-text-muted)] mb-1">
+          Batch starts
+        </span>
+        <input
+          type="datetime-local"
+          value={batchStart}
+          onChange={(e) => onBatchStartChange(e.target.value)}
+          disabled={disabled}
+          className="w-full px-3 py-2 rounded-lg text-sm
+                     bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)]
+                     text-[var(--color-text-primary)] focus:outline-none focus:border-[var(--color-accent)]
+                     disabled:opacity-50 disabled:cursor-not-allowed"
+        />
+      </label>
+
+      <ol className="space-y-2.5 max-h-96 overflow-y-auto pr-1">
+        {entries.map((entry) => (
+          <li key={entry.printNumber}>
+            <div className="flex items-baseline gap-2 text-xs min-w-0 mb-1">
+              <span className="flex-shrink-0 w-6 font-semibold text-[var(--color-accent)]">
+                {entry.printNumber}.
+              </span>
+              <span
+                className="flex-grow text-[var(--color-text-primary)] truncate"
+                title={entry.file.displayName}
+              >
+                {entry.file.displayName}
+                {entry.file.copies > 1 && (
+                  <span className="text-[var(--color-text-muted)]">
+                    {' '}
+                    ({entry.copy}/{entry.file.copies})
+                  </span>
+                )}
+              </span>
+              <span className="flex-shrink-0 text-[var(--color-text-secondary)] tabular-nums">
+                {formatClockTime(entry.printStart, start)} –{' '}
+                {entry.hasEstimate ? formatClockTime(entry.end, start) : '?'}
+              </span>
+            </div>
+
+            <div className="relative h-2 rounded-full bg-[var(--color-bg-elevated)]">
+              {entry.overheadSeconds > 0 && (
+                <div
+                  className="absolute inset-y-0 rounded-full bg-[var(--color-border)]"
+                  style={{
+                    left: `${toPercent(entry.start)}%`,
+                    width: `${toPercent(entry.printStart) - toPercent(entry.start)}%`,
+                  }}
+                  title={`Overhead: ${formatSeconds(entry.overheadSeconds)}`}
+                />
+              )}
+              <div
+                className="absolute inset-y-0 rounded-full bg-[var(--color-accent)]"
+                style={{
+                  left: `${toPercent(entry.printStart)}%`,
+                  width: `${toPercent(entry.end) - toPercent(entry.printStart)}%`,
+                }}
+              />
+            </div>
+
+            {entry.maintenance.length > 0 && (
+              <p className="mt-1 pl-8 text-xs text-[var(--color-text-muted)]">
+                First runs{' '}
+                {entry.maintenance.map((block) => block.name).join(', ')}
+              </p>
+            )}
+            {entry.filamentChange && (
+              <p className="mt-1 pl-8 text-xs text-[var(--color-warning)]">
+                {options.filamentChange === 'pause' ? 'Pauses' : 'Stops'} at{' '}
+                {formatClockTime(entry.start, start)} to load{' '}
+                {entry.filamentChange.to} — someone needs to be there
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {missingEstimates && (
+        <p className="mt-3 text-xs text-[var(--color-text-muted)]">
+          Some files have no time estimate, so times after them are too early.
+        </p>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useRef, useState } from 'react';
+import type { JobManifest } from '../types';
+import { deleteJob, listRecentJobs } from '../utils/jobStorage';
+
+interface RecentJobsProps {
+  onOpen: (manifest: JobManifest) => void;
+  /** Receives a job file picked from disk. */
+  onImport: (file: File) => void;
+  disabled?: boolean;
+}
+
+function formatSavedAt(savedAt: string): string {
+  return new Date(savedAt).toLocaleString([], {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+export function RecentJobs({
+  onOpen,
+  onImport,
+  disabled = false,
+}: RecentJobsProps) {
+  const [jobs, setJobs] = useState<JobManifest[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    // Without IndexedDB (e.g. some private windows) there's just no list
+    listRecentJobs()
+      .then(setJobs)
+      .catch(() => setJobs([]));
+  }, []);
+
+  const handleDelete = (id: string) => {
+    setJobs((prev) => prev.filter((job) => job.id !== id));
+    deleteJob(id).catch(() => {});
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImport(file);
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="cozy-card p-5">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <p className="text-sm font-medium text-[var(--color-text-primary)]">
+          Recent jobs
+        </p>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium text-[var(--color-text-secondary)]
+                     bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)]
+                     hover:border-[var(--color-border)] hover:text-[var(--color-text-primary)]
+                     disabled:opacity-50 disabled:cursor-not-allowed
+                     transition-all duration-200"
+        >
+          Open job file…
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileInput}
+          className="hidden"
+        />
+      </div>
+
+      {jobs.length === 0 ? (
+        <p className="text-sm text-[var(--color-text-muted)] leading-relaxed">
+          Batches you set up are saved in this browser and show up here, so a
+          reload doesn't lose them.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {jobs.map((job) => {
+            const prints = job.items.reduce(
+              (sum, item) => sum + item.copies,
+              0,
+            );
+
+            return (
+              <li key={job.id} className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => onOpen(job)}
+                  disabled={disabled}
+                  className="flex-grow min-w-0 text-left px-3 py-2 rounded-lg
+                             bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)]
+                             hover:border-[var(--color-border)]
+                             disabled:opacity-50 disabled:cursor-not-allowed
+                             transition-all duration-200"
+                >
+                  <span className="block text-sm text-[var(--color-text-primary)] truncate">
+                    {job.name}
+                  </span>
+                  <span className="block text-xs text-[var(--color-text-muted)]">
+                    {prints} print{prints !== 1 ? 's' : ''} ·{' '}
+                    {formatSavedAt(job.savedAt)}
+                  </span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(job.id)}
+                  disabled={disabled}
+                  className="flex-shrink-0 text-[var(--color-text-muted)] hover:text-[var(--color-error)] transition-colors p-1.5 rounded-lg hover:bg-[var(--color-bg-surface)] disabled:opacity-50"
+                  aria-label={`Forget ${job.name}`}
+                >
+                  <svg
+                    className="w-4 h-4"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                    aria-hidden="true"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M6 18L18 6M6 6l12 12"
+                    />
+                  </svg>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
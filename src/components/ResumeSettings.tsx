@@ -0,0 +1,96 @@
+import type { EjectionMacro, GCodeFile, ResumeOptions } from '../types';
+import { expandPrintSequence, getPrintLabel } from '../utils/printSequence';
+
+interface ResumeSettingsProps {
+  files: GCodeFile[];
+  resume: ResumeOptions;
+  onChange: (resume: ResumeOptions) => void;
+  /** Clearing the bed first needs a built-in ejection sequence. */
+  macro: EjectionMacro | null;
+  disabled?: boolean;
+}
+
+export function ResumeSettings({
+  files,
+  resume,
+  onChange,
+  macro,
+  disabled = false,
+}: ResumeSettingsProps) {
+  const jobs = expandPrintSequence(files);
+  const isResuming = resume.fromPrint > 1;
+  const startJob = jobs[resume.fromPrint - 1];
+
+  return (
+    <details className="cozy-card p-5" open={isResuming}>
+      <summary className="text-sm font-medium text-[var(--color-text-primary)] cursor-pointer">
+        Resume a failed batch
+        {isResuming && (
+          <span className="ml-2 text-xs font-semibold text-[var(--color-accent)]">
+            from print {resume.fromPrint}
+          </span>
+        )}
+      </summary>
+      <p className="text-sm text-[var(--color-text-muted)] leading-relaxed mt-2 mb-3">
+        Start the combined file part-way through the list. Prints keep their
+        numbers from the full batch, and the remaining time only counts what's
+        left.
+      </p>
+
+      <label className="block">
+        <span className="block text-xs text-[var(--color-text-muted)] mb-1">
+          Start from print
+        </span>
+        <input
+          type="number"
+          min={1}
+          max={jobs.length}
+          value={resume.fromPrint}
+          onChange={(e) =>
+            onChange({
+              ...resume,
+              fromPrint: Math.max(1, Number.parseInt(e.target.value, 10) || 1),
+            })
+          }
+          disabled={disabled}
+          className="w-full px-3 py-2 rounded-lg text-sm
+                     bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)]
+                     text-[var(--color-text-primary)] focus:outline-none focus:border-[var(--color-accent)]
+                     disabled:opacity-50 disabled:cursor-not-allowed"
+        />
+      </label>
+      {startJob ? (
+        <p className="mt-1.5 text-xs text-[var(--color-text-secondary)] truncate">
+          {resume.fromPrint}.{' '}
+          {getPrintLabel(startJob, startJob.file.displayName)}
+        </p>
+      ) : (
+        <p className="mt-1.5 text-xs text-[var(--color-error)]">
+          The batch only has {jobs.length} prints.
+        </p>
+      )}
+
+      {isResuming && (
+        <label className="flex items-start gap-3 mt-4 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={resume.clearBed && macro !== null}
+            onChange={(e) =>
+              onChange({ ...resume, clearBed: e.target.checked })
+            }
+            disabled={disabled || macro === null}
+            className="checkbox-cozy flex-shrink-0 mt-0.5"
+          />
+          <span className="text-sm text-[var(--color-text-secondary)] leading-relaxed">
+            Clear the bed first, in case the failed part is still on it
+            {macro === null && (
+              <span className="block text-xs text-[var(--color-text-muted)]">
+                Pick a built-in ejection sequence above to use this.
+              </span>
+            )}
+          </span>
+        </label>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import type { GCodeFile } from '../types';
+import { parseDateTimeInputValue } from '../utils/clock';
+import { findFilamentChanges } from '../utils/filamentChange';
+import {
+  OPTIMIZE_STRATEGY_LABELS,
+  type OptimizeStrategy,
+  optimizeOrder,
+} from '../utils/sequenceOptimizer';
+
+interface SequenceOptimizerProps {
+  files: GCodeFile[];
+  /** Batch start as a `datetime-local` value. */
+  batchStart: string;
+  onBatchStartChange: (value: string) => void;
+  onApply: (files: GCodeFile[]) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = `w-full px-3 py-2 rounded-lg text-sm
+  bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)]
+  text-[var(--color-text-primary)] focus:outline-none focus:border-[var(--color-accent)]
+  disabled:opacity-50 disabled:cursor-not-allowed`;
+
+export function SequenceOptimizer({
+  files,
+  batchStart,
+  onBatchStartChange,
+  onApply,
+  disabled = false,
+}: SequenceOptimizerProps) {
+  const [strategy, setStrategy] = useState<OptimizeStrategy>('groupFilament');
+  const [nightStart, setNightStart] = useState('18:00');
+  const [previewState, setPreviewState] = useState<{
+    source: GCodeFile[];
+    settings: string;
+    order: GCodeFile[];
+  } | null>(null);
+
+  // A preview built from an older list or other settings would undo
+  // whatever changed since, so it's only shown while both still match
+  const settings = `${strategy}|${batchStart}|${nightStart}`;
+  const preview =
+    previewState?.source === files && previewState.settings === settings
+      ? previewState.order
+      : null;
+
+  const handlePreview = () => {
+    setPreviewState({
+      source: files,
+      settings,
+      order: optimizeOrder(files, {
+        strategy,
+        startTime: parseDateTimeInputValue(batchStart),
+        nightStart,
+      }),
+    });
+  };
+
+  const handleApply = () => {
+    if (!preview) return;
+    onApply(preview);
+    setPreviewState(null);
+  };
+
+  return (
+    <div className="cozy-card p-5">
+      <p className="text-sm font-medium text-[var(--color-text-primary)] mb-1">
+        Optimize order
+      </p>
+      <p className="text-sm text-[var(--color-text-muted)] leading-relaxed mb-3">
+        Reorder the batch automatically. You'll see the new order before it
+        replaces the list.
+      </p>
+
+      <div className="space-y-3">
+        <select
+          value={strategy}
+          onChange={(e) => setStrategy(e.target.value as OptimizeStrategy)}
+          disabled={disabled}
+          aria-label="Optimization strategy"
+          className={inputClassName}
+        >
+          {Object.entries(OPTIMIZE_STRATEGY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+
+        {strategy === 'overnight' && (
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-xs text-[var(--color-text-muted)] mb-1">
+                Batch starts
+              </span>
+              <input
+                type="datetime-local"
+                value={batchStart}
+                onChange={(e) => onBatchStartChange(e.target.value)}
+                disabled={disabled}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-[var(--color-text-muted)] mb-1">
+                Shop empties at
+              </span>
+              <input
+                type="time"
+                value={nightStart}
+                onChange={(e) => setNightStart(e.target.value)}
+                disabled={disabled}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handlePreview}
+          disabled={disabled || files.length < 2}
+          className="w-full py-2 rounded-lg text-sm font-medium text-[var(--color-text-secondary)]
+                     bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)]
+                     hover:border-[var(--color-border)] hover:text-[var(--color-text-primary)]
+                     disabled:opacity-50 disabled:cursor-not-allowed
+                     transition-all duration-200"
+        >
+          Preview order
+        </button>
+      </div>
+
+      {preview && (
+        <div className="mt-4 pt-4 border-t border-[var(--color-border-subtle)]">
+          <p className="text-xs text-[var(--color-text-muted)] mb-2">
+            Filament changes: {findFilamentChanges(files).size} →{' '}
+            {findFilamentChanges(preview).size}
+          </p>
+          <ol className="space-y-1 mb-4">
+            {preview.map((file, index) => (
+              <li
+                key={file.id}
+                className="flex items-center gap-2 text-sm min-w-0"
+              >
+                <span className="flex-shrink-0 w-6 text-xs font-semibold text-[var(--color-accent)]">
+                  {index + 1}.
+                </span>
+                <span
+                  className="text-[var(--color-text-primary)] truncate"
+                  title={file.displayName}
+                >
+                  {file.displayName}
+                </span>
+                <span className="flex-shrink-0 text-xs text-[var(--color-text-muted)]">
+                  ×{file.copies}
+                </span>
+              </li>
+            ))}
+          </ol>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={disabled}
+              className="flex-grow py-2 rounded-lg text-sm font-semibold text-[var(--color-bg-deep)]
+                         bg-gradient-to-b from-[var(--color-accent-hover)] to-[var(--color-accent)]
+                         hover:from-[var(--color-accent)] hover:to-[var(--color-accent-muted)]
+                         disabled:opacity-50 disabled:cursor-not-allowed
+                         transition-all duration-200"
+            >
+              Use this order
+            </button>
+            <button
+              type="button"
+              onClick={() => setPreviewState(null)}
+              className="px-4 py-2 rounded-lg text-sm font-medium text-[var(--color-text-secondary)]
+                         bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)]
+                         hover:border-[var(--color-border)] hover:text-[var(--color-text-primary)]
+                         transition-all duration-200"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
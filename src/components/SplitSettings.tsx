@@ -0,0 +1,99 @@
+import type { GCodeFile, SplitLimits } from '../types';
+import { splitBatch } from '../utils/batchSplit';
+
+interface SplitSettingsProps {
+  files: GCodeFile[];
+  limits: SplitLimits;
+  /** Prints before this one are left out when resuming. */
+  fromPrint?: number;
+  onChange: (limits: SplitLimits) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = `w-full px-3 py-2 rounded-lg text-sm
+  bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)]
+  text-[var(--color-text-primary)] focus:outline-none focus:border-[var(--color-accent)]
+  disabled:opacity-50 disabled:cursor-not-allowed`;
+
+/** An empty or non-positive field means no limit. */
+function parseLimit(value: string, scale = 1): number | null {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed * scale : null;
+}
+
+export function SplitSettings({
+  files,
+  limits,
+  fromPrint = 1,
+  onChange,
+  disabled = false,
+}: SplitSettingsProps) {
+  const partCount = splitBatch(files, limits, fromPrint).length;
+
+  const fields = [
+    {
+      label: 'Max hours',
+      value: limits.maxSeconds === null ? '' : limits.maxSeconds / 3600,
+      step: 0.5,
+      onChange: (value: string) =>
+        onChange({ ...limits, maxSeconds: parseLimit(value, 3600) }),
+    },
+    {
+      label: 'Max prints',
+      value: limits.maxPrints ?? '',
+      step: 1,
+      onChange: (value: string) =>
+        onChange({ ...limits, maxPrints: parseLimit(value) }),
+    },
+    {
+      label: 'Max filament (g)',
+      value: limits.maxGrams ?? '',
+      step: 50,
+      onChange: (value: string) =>
+        onChange({ ...limits, maxGrams: parseLimit(value) }),
+    },
+  ];
+
+  return (
+    <details className="cozy-card p-5" open={partCount > 1}>
+      <summary className="text-sm font-medium text-[var(--color-text-primary)] cursor-pointer">
+        Split into parts
+        {partCount > 1 && (
+          <span className="ml-2 text-xs font-semibold text-[var(--color-accent)]">
+            {partCount} files
+          </span>
+        )}
+      </summary>
+      <p className="text-sm text-[var(--color-text-muted)] leading-relaxed mt-2 mb-3">
+        Cap how long a file runs, how many prints it holds or how much filament
+        it needs, e.g. to stay within one spool. Parts download together as a
+        ZIP, in order. Leave a field empty for no limit.
+      </p>
+
+      <div className="grid grid-cols-3 gap-3">
+        {fields.map((field) => (
+          <label key={field.label} className="block">
+            <span className="block text-xs text-[var(--color-text-muted)] mb-1">
+              {field.label}
+            </span>
+            <input
+              type="number"
+              min={0}
+              step={field.step}
+              value={field.value}
+              onChange={(e) => field.onChange(e.target.value)}
+              disabled={disabled}
+              className={inputClassName}
+            />
+          </label>
+        ))}
+      </div>
+
+      {partCount > 1 && (
+        <p className="mt-3 text-xs text-[var(--color-text-muted)]">
+          Each part is its own print job, so it starts with a full calibration.
+        </p>
+      )}
+    </details>
+  );
+}
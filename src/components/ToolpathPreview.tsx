@@ -0,0 +1,289 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { BedOffset, CombineOptions, GCodeFile, Toolpath } from '../types';
+import { formatBedOffset, isZeroOffset } from '../utils/bedOffset';
+import { findPrinter } from '../utils/printers';
+import { getPrintPlan } from '../utils/printPlan';
+import { expandPrintSequence, getPrintLabel } from '../utils/printSequence';
+import { drawToolpath, type ToolpathView } from '../utils/toolpathCanvas';
+
+interface ToolpathPreviewProps {
+  /** The plate the preview was opened from. */
+  file: GCodeFile;
+  files: GCodeFile[];
+  options: CombineOptions;
+  loadToolpath: (
+    gcode: string,
+    prelude: string,
+    trimCalibration: boolean,
+    offset: BedOffset,
+  ) => Promise<Toolpath>;
+  onClose: () => void;
+}
+
+type PreviewMode = 'plate' | 'batch';
+
+const CANVAS_SIZE = 480;
+// Bambu Lab's full-size beds, for plates that don't name their printer
+const DEFAULT_BED: [number, number, number] = [256, 256, 256];
+
+const MODE_LABELS: Record<PreviewMode, string> = {
+  plate: 'This plate',
+  batch: 'In the batch',
+};
+
+const VIEW_LABELS: Record<ToolpathView, string> = {
+  top: 'Top',
+  iso: '3D',
+};
+
+function ToggleButton({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200 ${
+        active
+          ? 'bg-[var(--color-accent-dim)] text-[var(--color-accent)] border border-[var(--color-accent)]/40'
+          : 'bg-[var(--color-bg-elevated)] text-[var(--color-text-secondary)] border border-[var(--color-border-subtle)] hover:border-[var(--color-border)]'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+export function ToolpathPreview({
+  file,
+  files,
+  options,
+  loadToolpath,
+  onClose,
+}: ToolpathPreviewProps) {
+  const jobs = useMemo(() => expandPrintSequence(files), [files]);
+  const [mode, setMode] = useState<PreviewMode>('plate');
+  const [view, setView] = useState<ToolpathView>('top');
+  const [printNumber, setPrintNumber] = useState(
+    () => jobs.find((job) => job.file.id === file.id)?.printNumber ?? 1,
+  );
+  const [layerIndex, setLayerIndex] = useState<number | null>(null);
+  const [loaded, setLoaded] = useState<{
+    key: string;
+    toolpath: Toolpath;
+  } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const plan = useMemo(
+    () => (mode === 'batch' ? getPrintPlan(files, options, printNumber) : null),
+    [mode, files, options, printNumber],
+  );
+  const shownFile = plan?.job.file ?? file;
+  const gcode = mode === 'plate' ? file.gcode : plan?.job.file.gcode;
+  const prelude = plan?.prelude ?? '';
+  const trimCalibration = plan?.trimCalibration ?? false;
+  const offsetX = plan?.offset.x ?? 0;
+  const offsetY = plan?.offset.y ?? 0;
+  const key = `${mode}:${shownFile.id}:${trimCalibration}:${offsetX}:${offsetY}:${prelude}`;
+  const toolpath = loaded?.key === key ? loaded.toolpath : null;
+
+  const bed =
+    (shownFile.profile.printerModel &&
+      findPrinter(shownFile.profile.printerModel)?.buildVolume) ||
+    DEFAULT_BED;
+  const shownLayer =
+    toolpath && toolpath.layers.length > 0
+      ? Math.min(layerIndex ?? Infinity, toolpath.layers.length - 1)
+      : 0;
+
+  useEffect(() => {
+    if (gcode === undefined) return;
+
+    // Only the latest request may update the preview
+    let current = true;
+    setLoadError(null);
+    loadToolpath(gcode, prelude, trimCalibration, { x: offsetX, y: offsetY })
+      .then((result) => {
+        if (!current) return;
+        setLoaded({ key, toolpath: result });
+        setLayerIndex(null);
+      })
+      .catch((error: unknown) => {
+        if (!current) return;
+        setLoadError(
+          error instanceof Error ? error.message : 'Could not read the moves',
+        );
+      });
+
+    return () => {
+      current = false;
+    };
+  }, [gcode, prelude, trimCalibration, offsetX, offsetY, key, loadToolpath]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !toolpath) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = CANVAS_SIZE * ratio;
+    canvas.height = CANVAS_SIZE * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    drawToolpath(context, CANVAS_SIZE, toolpath, {
+      bed,
+      layerIndex: shownLayer,
+      view,
+    });
+  }, [toolpath, bed, shownLayer, view]);
+
+  const layer = toolpath?.layers[shownLayer];
+  const firstPrinted = jobs[(options.resume?.fromPrint ?? 1) - 1];
+
+  return (
+    <div className="cozy-card p-5">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <p
+          className="text-sm font-medium text-[var(--color-text-primary)] truncate"
+          title={shownFile.displayName}
+        >
+          Toolpath · {shownFile.displayName}
+        </p>
+        <button
+          type="button"
+          onClick={onClose}
+          className="flex-shrink-0 text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)] transition-colors p-1.5 rounded-lg hover:bg-[var(--color-bg-surface)]"
+          aria-label="Close preview"
+        >
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+            aria-hidden="true"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        {(Object.keys(MODE_LABELS) as PreviewMode[]).map((value) => (
+          <ToggleButton
+            key={value}
+            active={mode === value}
+            onClick={() => setMode(value)}
+          >
+            {MODE_LABELS[value]}
+          </ToggleButton>
+        ))}
+        <span className="flex-grow" />
+        {(Object.keys(VIEW_LABELS) as ToolpathView[]).map((value) => (
+          <ToggleButton
+            key={value}
+            active={view === value}
+            onClick={() => setView(value)}
+          >
+            {VIEW_LABELS[value]}
+          </ToggleButton>
+        ))}
+      </div>
+
+      {mode === 'batch' && (
+        <label className="block mb-3">
+          <span className="flex justify-between text-xs text-[var(--color-text-muted)] mb-1">
+            <span>Print</span>
+            <span>
+              {printNumber} of {jobs.length}
+            </span>
+          </span>
+          <input
+            type="range"
+            min={1}
+            max={jobs.length}
+            value={printNumber}
+            onChange={(e) => setPrintNumber(Number(e.target.value))}
+            className="w-full accent-[var(--color-accent)]"
+          />
+          <span className="block mt-1 text-xs text-[var(--color-text-secondary)] truncate">
+            {plan
+              ? [
+                  getPrintLabel(plan.job, plan.job.file.displayName),
+                  plan.prelude && 'runs the inserted stops first',
+                  plan.trimCalibration && 'skips calibration',
+                  !isZeroOffset(plan.offset) &&
+                    `moved ${formatBedOffset(plan.offset)}`,
+                ]
+                  .filter(Boolean)
+                  .join(' · ')
+              : `Left out, since the batch resumes from print ${options.resume?.fromPrint ?? 1}${
+                  firstPrinted ? ` (${firstPrinted.file.displayName})` : ''
+                }.`}
+          </span>
+        </label>
+      )}
+
+      {gcode !== undefined && (
+        <div className="relative">
+          <canvas
+            ref={canvasRef}
+            style={{ width: '100%', aspectRatio: '1' }}
+            className={`rounded-lg bg-[var(--color-bg-base)] ${toolpath ? '' : 'opacity-40'}`}
+            aria-label={`Toolpath of ${shownFile.displayName}`}
+          />
+          {!toolpath && (
+            <p className="absolute inset-0 flex items-center justify-center text-sm text-[var(--color-text-muted)]">
+              {loadError ?? 'Reading the moves…'}
+            </p>
+          )}
+        </div>
+      )}
+
+      {toolpath && toolpath.layers.length > 0 && (
+        <label className="block mt-3">
+          <span className="flex justify-between text-xs text-[var(--color-text-muted)] mb-1">
+            <span>
+              {layer?.z === null
+                ? 'Before the first layer'
+                : `Layer ${toolpath.layers[0].z === null ? shownLayer : shownLayer + 1}`}
+            </span>
+            {layer?.z != null && <span>Z {layer.z.toFixed(2)} mm</span>}
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={toolpath.layers.length - 1}
+            value={shownLayer}
+            onChange={(e) => setLayerIndex(Number(e.target.value))}
+            className="w-full accent-[var(--color-accent)]"
+          />
+        </label>
+      )}
+
+      <p className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-[var(--color-text-muted)]">
+        <span>
+          <span className="text-[var(--color-accent)]">━</span> Extrusion
+        </span>
+        <span>
+          <span className="text-[var(--color-text-muted)]">━</span> Travel
+        </span>
+        <span>
+          <span className="text-[var(--color-success)]">┅</span> Footprint
+          {toolpath?.footprint &&
+            ` ${Math.round(toolpath.footprint.maxX - toolpath.footprint.minX)} × ${Math.round(toolpath.footprint.maxY - toolpath.footprint.minY)} mm`}
+        </span>
+      </p>
+    </div>
+  );
+}
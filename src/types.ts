@@ -1,16 +1,318 @@
+export interface GCodeMetadata {
+  slicer: string | null;
+  modelPrintSeconds: number | null;
+  totalEstimatedSeconds: number | null;
+  totalLayers: number | null;
+  maxZHeight: number | null;
+  filamentLengthMm: number[];
+  filamentWeightG: number[];
+  nozzleDiameter: number | null;
+  printerModel: string | null;
+}
+
+export interface PrintProfile {
+  printerModel: string | null;
+  nozzleDiameter: number | null;
+  bedType: string | null;
+  filamentTypes: string[];
+}
+
+export interface SliceInfoFilament {
+  id: number;
+  trayInfoIdx: string;
+  type: string;
+  color: string;
+  usedMeters: number | null;
+  usedGrams: number | null;
+}
+
+export interface SliceInfoPlate {
+  index: number;
+  printerModelId: string | null;
+  nozzleDiameter: number | null;
+  predictionSeconds: number | null;
+  weightG: number | null;
+  objects: string[];
+  filaments: SliceInfoFilament[];
+}
+
+export interface PlateSettings {
+  plateNumber: number;
+  /** Name given to the plate in Bambu Studio. */
+  name: string | null;
+  gcodePath: string | null;
+  objectCount: number;
+}
+
+export type SkippedPlateReason = 'empty' | 'unsliced';
+
+export interface SkippedPlate {
+  plateNumber: number;
+  name: string | null;
+  reason: SkippedPlateReason;
+}
+
+export interface ProjectSettings {
+  printerModel: string | null;
+  nozzleDiameter: number | null;
+  bedType: string | null;
+  filamentTypes: string[];
+}
+
+export type CompatibilityField =
+  | 'printerModel'
+  | 'nozzleDiameter'
+  | 'bedType'
+  | 'filamentType';
+
+export interface CompatibilityIssue {
+  field: CompatibilityField;
+  expected: string;
+  actual: string;
+}
+
+export type ExtrusionMode = 'absolute' | 'relative';
+
+/** What the safety checks need to know about a plate, read once on upload. */
+export interface PlateScan {
+  hasEndGCode: boolean;
+  hotendOnAtEnd: boolean;
+  bedOnAtEnd: boolean;
+  /** Set by the last M82/M83, or null if the plate never sets one. */
+  extrusionModeAtEnd: ExtrusionMode | null;
+  /** Whether the plate picks an extrusion mode before it first extrudes. */
+  setsExtrusionModeFirst: boolean;
+  /** Extent of the extruding moves in the print itself, in mm. */
+  extrusionBounds: ToolpathBounds | null;
+  /**
+   * Extent of the absolute X and Y the print itself moves to, travels
+   * included and tool changes and conditional blocks left out: the
+   * coordinates a bed offset shifts.
+   */
+  moveBounds: ToolpathBounds | null;
+  /** Highest Z the nozzle is sent to anywhere in the plate. */
+  maxZ: number | null;
+  /** A pause in the end G-code, or one with nothing after it. */
+  endsPaused: boolean;
+}
+
+export interface ToolpathBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+/** Moves as flat [x1, y1, x2, y2, ...] line segments, in mm. */
+export interface ToolpathLayer {
+  /** Height the layer prints at, or null for moves before the first layer. */
+  z: number | null;
+  extrusions: Float32Array;
+  travels: Float32Array;
+}
+
+export interface Toolpath {
+  layers: ToolpathLayer[];
+  /** Extent of the extruding moves, i.e. the plate's footprint. */
+  footprint: ToolpathBounds | null;
+}
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRule =
+  | 'endGCode'
+  | 'heaters'
+  | 'buildVolume'
+  | 'ejectionClearance'
+  | 'extrusionMode'
+  | 'pause';
+
+export interface LintFinding {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  /** The file the finding is about, or null for the batch as a whole. */
+  fileId: string | null;
+}
+
+export type EjectionStatus = 'present' | 'missing' | 'unknown';
+
+export interface EjectionAnalysis {
+  status: EjectionStatus;
+  explanation: string;
+}
+
+/** Adjustments to one plate's print, applied when combining. */
+export interface PrintOverrides {
+  /** Speed as a percentage of the sliced speed, or null to leave it. */
+  speedPercent: number | null;
+  /** Flow as a percentage of the sliced flow, or null to leave it. */
+  flowPercent: number | null;
+  /** Added to every nozzle temperature the plate sets, in °C. */
+  nozzleTempOffset: number;
+  /** Added to every bed temperature the plate sets, in °C. */
+  bedTempOffset: number;
+}
+
 export interface GCodeFile {
   id: string;
   fileName: string;
   displayName: string;
   gcode: string;
-  originalZip: ArrayBuffer;
+  /** The uploaded .gcode.3mf, or null for plain G-code uploads. */
+  originalZip: ArrayBuffer | null;
   lineCount: number;
-  estimatedTime: string | null;
+  metadata: GCodeMetadata;
+  profile: PrintProfile;
+  filaments: SliceInfoFilament[];
+  ejection: EjectionAnalysis;
+  scan: PlateScan;
+  /** Plate preview as a data URL. */
+  thumbnail: string | null;
   copies: number;
+  /**
+   * AMS slot (1-based) each filament id is pulled from in the combined
+   * batch. Filaments not listed keep their own slot.
+   */
+  filamentSlots: Record<number, number>;
+  overrides: PrintOverrides;
   plateNumber: number | null;
   sourceFile: string;
+  /** Identifies the upload in local storage; see `getUploadKey`. */
+  sourceKey: string;
+  /** Position among the plates read from the upload. */
+  plateIndex: number;
 }
 
+export interface EjectionMacro {
+  id: string;
+  version: number;
+  /** Printer name as Bambu Studio shows it, e.g. "Bambu Lab A1". */
+  printerModel: string;
+  name: string;
+  /** Highest Z the printer can reach, in mm. */
+  maxZ: number;
+  /** Furthest back the nozzle goes to start pushing, in mm. */
+  backY: number;
+  /** G-code with `{clearance_z}` and `{push_start_y}` placeholders. */
+  template: string;
+}
+
+/** What happens between neighbouring prints that use different filament. */
+export type FilamentChangeMode = 'off' | 'pause' | 'm600';
+
+/** Limits for splitting a batch into several files; null means no limit. */
+export interface SplitLimits {
+  maxSeconds: number | null;
+  maxPrints: number | null;
+  maxGrams: number | null;
+}
+
+export interface ResumeOptions {
+  /** 1-based print in the expanded sequence to start from. */
+  fromPrint: number;
+  /** Run the ejection macro first, in case a failed part is on the bed. */
+  clearBed: boolean;
+}
+
+export type BedOffsetPattern = 'off' | 'grid' | 'cycle' | 'random';
+
+export interface BedOffsetOptions {
+  pattern: BedOffsetPattern;
+  /** Distance between positions, in whole mm. */
+  stepMm: number;
+}
+
+/** How far a print is moved from where it was sliced, in whole mm. */
+export interface BedOffset {
+  x: number;
+  y: number;
+}
+
+/** A G-code block that can be run between prints, e.g. a nozzle wipe. */
+export interface MaintenanceBlock {
+  id: string;
+  name: string;
+  gcode: string;
+  /** How long the block keeps the printer busy, for time estimates. */
+  minutes: number;
+}
+
+export type MaintenanceTrigger = 'prints' | 'hours';
+
+/**
+ * Runs `block` before the next print every `every` prints, or every `every`
+ * hours of printing. The rule keeps its own copy of the block, so a saved
+ * job prints the same way after the library changes.
+ */
+export interface MaintenanceRule {
+  id: string;
+  block: MaintenanceBlock;
+  trigger: MaintenanceTrigger;
+  every: number;
+}
+
+/** Choices that apply to the whole batch when combining. */
+export interface CombineOptions {
+  /** Injected between prints, or null to rely on the sliced files. */
+  ejectionMacro: EjectionMacro | null;
+  /** Skip start-up calibration on every print after the first. */
+  calibrateOnce: boolean;
+  filamentChange: FilamentChangeMode;
+  split: SplitLimits;
+  /** Start part-way through the batch, or null to print all of it. */
+  resume: ResumeOptions | null;
+  /** Moves copies around the bed so they don't all wear the same spot. */
+  bedOffset: BedOffsetOptions;
+  maintenance: MaintenanceRule[];
+}
+
+/** Everything about a batch besides its files, as the page holds it. */
+export interface JobSettings {
+  ejectionMacro: EjectionMacro | null;
+  calibrateOnce: boolean;
+  filamentChange: FilamentChangeMode;
+  split: SplitLimits;
+  resume: ResumeOptions;
+  bedOffset: BedOffsetOptions;
+  maintenance: MaintenanceRule[];
+  /** Batch start as a `datetime-local` value. */
+  batchStart: string;
+}
+
+export interface JobManifestItem {
+  sourceFile: string;
+  sourceKey: string;
+  plateNumber: number | null;
+  plateIndex: number;
+  displayName: string;
+  copies: number;
+  filamentSlots: Record<number, number>;
+  /** Missing in jobs saved before overrides existed. */
+  overrides?: PrintOverrides;
+}
+
+/**
+ * A saved batch: which plates of which uploads, in order, with their copy
+ * counts and the batch options. The uploads themselves are kept in local
+ * storage under `sourceKey`.
+ */
+export interface JobManifest {
+  version: 1;
+  id: string;
+  name: string;
+  /** ISO timestamp. */
+  savedAt: string;
+  items: JobManifestItem[];
+  options: Omit<JobSettings, 'ejectionMacro'> & {
+    /** `id@version` of the built-in ejection macro. */
+    ejectionMacro: string | null;
+  };
+}
+
+/** Receives how far a long-running step has got, from 0 to 1. */
+export type ProgressCallback = (fraction: number) => void;
+
 export interface ProcessingState {
   isProcessing: boolean;
   progress: number;
@@ -20,12 +322,31 @@ export interface ProcessingState {
 export interface ParsedGCodeInfo {
   gcode: string;
   lineCount: number;
-  estimatedTime: string | null;
+  metadata: GCodeMetadata;
+  profile: PrintProfile;
+  filaments: SliceInfoFilament[];
+  ejection: EjectionAnalysis;
+  scan: PlateScan;
+  thumbnail: string | null;
   plateNumber: number;
+  plateName: string | null;
+  /** More than 1 for plates recovered from a combined file. */
+  copies: number;
+  /** Set for plates recovered from a combined file. */
+  overrides: PrintOverrides;
 }
 
 export interface ExtractedPlates {
   plates: ParsedGCodeInfo[];
-  originalZip: ArrayBuffer;
+  skippedPlates: SkippedPlate[];
+  originalZip: ArrayBuffer | null;
   fileName: string;
+  /** The upload was a combined file, split back into its plates. */
+  combined: boolean;
+}
+
+export interface ProcessedUpload {
+  files: GCodeFile[];
+  /** Human-readable notes about plates that were found but not imported. */
+  notices: string[];
 }
@@ -0,0 +1,82 @@
+import type { ProgressCallback } from '../types';
+import { Md5 } from './md5';
+import {
+  readZipEntries,
+  readZipEntry,
+  readZipEntryText,
+  type ZipEntry,
+} from './zipStream';
+
+export class ArchiveVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveVerificationError';
+  }
+}
+
+export function getChecksumPath(filePath: string): string {
+  return `${filePath}.md5`;
+}
+
+function getChecksumTarget(checksumPath: string): string {
+  return checksumPath.slice(0, -'.md5'.length);
+}
+
+/**
+ * Re-opens a generated archive and checks every `.md5` sidecar against the
+ * file it describes. Throws if a sidecar is stale or points at nothing, so a
+ * broken archive never reaches the printer. Entries are streamed back out of
+ * the Blob, so this works for archives too large to load into memory.
+ */
+export async function verifyArchiveChecksums(
+  blob: Blob,
+  onProgress?: ProgressCallback,
+): Promise<number> {
+  let entries: ZipEntry[];
+  try {
+    entries = await readZipEntries(blob);
+  } catch {
+    throw new ArchiveVerificationError(
+      "The combined archive couldn't be re-opened for verification.",
+    );
+  }
+
+  const entriesByPath = new Map(entries.map((entry) => [entry.path, entry]));
+  const checksumEntries = entries.filter((entry) =>
+    entry.path.endsWith('.md5'),
+  );
+  const totalSize = checksumEntries.reduce(
+    (sum, entry) =>
+      sum + (entriesByPath.get(getChecksumTarget(entry.path))?.size ?? 0),
+    0,
+  );
+  let verifiedSize = 0;
+
+  for (const checksumEntry of checksumEntries) {
+    const checksumPath = checksumEntry.path;
+    const targetPath = getChecksumTarget(checksumPath);
+    const target = entriesByPath.get(targetPath);
+
+    if (!target) {
+      throw new ArchiveVerificationError(
+        `"${checksumPath}" has no matching "${targetPath}" in the combined archive.`,
+      );
+    }
+
+    const expected = (await readZipEntryText(blob, checksumEntry)).trim();
+    const checksum = new Md5();
+    await readZipEntry(blob, target, (chunk) => {
+      checksum.update(chunk);
+      verifiedSize += chunk.length;
+      onProgress?.(verifiedSize / Math.max(1, totalSize));
+    });
+
+    if (expected.toUpperCase() !== checksum.digest()) {
+      throw new ArchiveVerificationError(
+        `Checksum mismatch for "${targetPath}" in the combined archive. The printer would reject this file.`,
+      );
+    }
+  }
+
+  return checksumEntries.length;
+}
@@ -0,0 +1,299 @@
+import type JSZip from 'jszip';
+import type {
+  GCodeMetadata,
+  PlateSettings,
+  PrintProfile,
+  ProjectSettings,
+  SliceInfoFilament,
+  SliceInfoPlate,
+} from '../types';
+import { readConfigValue } from './gcodeHeader';
+import { normalizePrinterName } from './printers';
+
+const SLICE_INFO_PATH = 'Metadata/slice_info.config';
+const PROJECT_SETTINGS_PATH = 'Metadata/project_settings.config';
+const MODEL_SETTINGS_PATH = 'Metadata/model_settings.config';
+const ROOT_RELATIONSHIPS_PATH = '_rels/.rels';
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  apos: "'",
+  gt: '>',
+  lt: '<',
+  quot: '"',
+};
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(
+    /&(amp|apos|gt|lt|quot);/g,
+    (_, name) => XML_ENTITIES[name],
+  );
+}
+
+/**
+ * Reads the attributes of a single XML tag. The metadata files are small and
+ * flat, so a regex walk is enough and also works where DOMParser isn't
+ * available.
+ */
+export function parseXmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1]] = decodeXmlEntities(match[2]);
+  }
+
+  return attributes;
+}
+
+export function findTags(
+  xml: string,
+  tagName: string,
+): Record<string, string>[] {
+  const pattern = new RegExp(`<${tagName}\\b([^>]*?)\\/?>`, 'g');
+  return Array.from(xml.matchAll(pattern), (match) =>
+    parseXmlAttributes(match[1]),
+  );
+}
+
+export function readMetadataEntries(xml: string): Map<string, string> {
+  const entries = new Map<string, string>();
+  for (const attributes of findTags(xml, 'metadata')) {
+    if (attributes.key !== undefined) {
+      entries.set(attributes.key, attributes.value ?? '');
+    }
+  }
+  return entries;
+}
+
+function parseOptionalNumber(value: string | undefined): number | null {
+  if (value === undefined || value === '') return null;
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function parseSliceInfo(xml: string): SliceInfoPlate[] {
+  const plates: SliceInfoPlate[] = [];
+
+  for (const match of xml.matchAll(/<plate>([\s\S]*?)<\/plate>/g)) {
+    const body = match[1];
+    const metadata = readMetadataEntries(body);
+    const index = parseOptionalNumber(metadata.get('index'));
+    if (index === null) continue;
+
+    const filaments: SliceInfoFilament[] = findTags(body, 'filament').map(
+      (attributes) => ({
+        id: Number.parseInt(attributes.id ?? '0', 10),
+        trayInfoIdx: attributes.tray_info_idx ?? '',
+        type: attributes.type ?? '',
+        color: attributes.color ?? '',
+        usedMeters: parseOptionalNumber(attributes.used_m),
+        usedGrams: parseOptionalNumber(attributes.used_g),
+      }),
+    );
+
+    plates.push({
+      index,
+      printerModelId: metadata.get('printer_model_id') || null,
+      nozzleDiameter: parseOptionalNumber(metadata.get('nozzle_diameters')),
+      predictionSeconds: parseOptionalNumber(metadata.get('prediction')),
+      weightG: parseOptionalNumber(metadata.get('weight')),
+      objects: findTags(body, 'object').map(
+        (attributes) => attributes.name ?? '',
+      ),
+      filaments,
+    });
+  }
+
+  return plates;
+}
+
+export function parseModelSettingsPlates(xml: string): PlateSettings[] {
+  const plates: PlateSettings[] = [];
+
+  for (const match of xml.matchAll(/<plate>([\s\S]*?)<\/plate>/g)) {
+    const body = match[1];
+    const metadata = readMetadataEntries(body);
+    const plateNumber = parseOptionalNumber(metadata.get('plater_id'));
+    if (plateNumber === null) continue;
+
+    plates.push({
+      plateNumber,
+      name: metadata.get('plater_name')?.trim() || null,
+      gcodePath: metadata.get('gcode_file') || null,
+      objectCount: body.match(/<model_instance>/g)?.length ?? 0,
+    });
+  }
+
+  return plates;
+}
+
+/**
+ * The G-code parts the package relationships point at, as archive paths
+ * (Bambu Studio registers each sliced plate in _rels/.rels).
+ */
+export function parseGCodeRelationships(xml: string): string[] {
+  return findTags(xml, 'Relationship')
+    .map((attributes) => attributes.Target ?? '')
+    .filter((target) => target.endsWith('.gcode'))
+    .map((target) => target.replace(/^\//, ''));
+}
+
+function firstString(value: unknown): string | null {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' && first !== '' ? first : null;
+}
+
+function stringList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  return typeof value === 'string' ? value.split(';') : [];
+}
+
+export function parseProjectSettings(json: string): ProjectSettings | null {
+  let settings: Record<string, unknown>;
+  try {
+    settings = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  return {
+    printerModel: firstString(settings.printer_model),
+    nozzleDiameter: parseOptionalNumber(
+      firstString(settings.nozzle_diameter) ?? undefined,
+    ),
+    bedType: firstString(settings.curr_bed_type),
+    filamentTypes: stringList(settings.filament_type),
+  };
+}
+
+export async function readSliceInfo(zip: JSZip): Promise<SliceInfoPlate[]> {
+  const xml = await zip.file(SLICE_INFO_PATH)?.async('string');
+  return xml ? parseSliceInfo(xml) : [];
+}
+
+export async function readModelSettingsPlates(
+  zip: JSZip,
+): Promise<PlateSettings[]> {
+  const xml = await zip.file(MODEL_SETTINGS_PATH)?.async('string');
+  return xml ? parseModelSettingsPlates(xml) : [];
+}
+
+export async function readGCodeRelationships(zip: JSZip): Promise<string[]> {
+  const xml = await zip.file(ROOT_RELATIONSHIPS_PATH)?.async('string');
+  return xml ? parseGCodeRelationships(xml) : [];
+}
+
+export async function readProjectSettings(
+  zip: JSZip,
+): Promise<ProjectSettings | null> {
+  const json = await zip.file(PROJECT_SETTINGS_PATH)?.async('string');
+  return json ? parseProjectSettings(json) : null;
+}
+
+/**
+ * Reads a plate's preview image as a data URL, preferring the full-size
+ * render over the small one.
+ */
+export async function readPlateThumbnail(
+  zip: JSZip,
+  plateNumber: number,
+): Promise<string | null> {
+  const image =
+    zip.file(`Metadata/plate_${plateNumber}.png`) ??
+    zip.file(`Metadata/plate_${plateNumber}_small.png`);
+  if (!image) return null;
+
+  return `data:image/png;base64,${await image.async('base64')}`;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.map((value) => value.trim()))).filter(
+    Boolean,
+  );
+}
+
+/**
+ * Combines what the archive and the G-code itself say about the machine a
+ * plate was sliced for. The plate's own values win: its slice info first,
+ * then the config block in its G-code. Project-wide settings only fill in
+ * what the plate doesn't say, as they may have changed after it was sliced.
+ */
+export function buildPrintProfile(
+  gcode: string,
+  metadata: GCodeMetadata,
+  slicePlate: SliceInfoPlate | undefined,
+  projectSettings: ProjectSettings | null,
+): PrintProfile {
+  const printerModel =
+    slicePlate?.printerModelId ??
+    metadata.printerModel ??
+    projectSettings?.printerModel;
+
+  const plateFilamentTypes = unique(
+    slicePlate?.filaments.map((filament) => filament.type) ?? [],
+  );
+  const gcodeFilamentTypes = unique(
+    (readConfigValue(gcode, 'filament_type') ?? '').split(';'),
+  );
+  const filamentTypes =
+    plateFilamentTypes.length > 0
+      ? plateFilamentTypes
+      : gcodeFilamentTypes.length > 0
+        ? gcodeFilamentTypes
+        : unique(projectSettings?.filamentTypes ?? []);
+
+  return {
+    printerModel: printerModel ? normalizePrinterName(printerModel) : null,
+    nozzleDiameter:
+      slicePlate?.nozzleDiameter ??
+      metadata.nozzleDiameter ??
+      projectSettings?.nozzleDiameter ??
+      null,
+    bedType:
+      readConfigValue(gcode, 'curr_bed_type') ??
+      projectSettings?.bedType ??
+      null,
+    filamentTypes,
+  };
+}
+
+/**
+ * The filaments a plate uses, by slot. Falls back to the per-extruder totals
+ * in the G-code header when the archive has no slice info.
+ */
+export function buildFilamentUsage(
+  metadata: GCodeMetadata,
+  profile: PrintProfile,
+  slicePlate: SliceInfoPlate | undefined,
+): SliceInfoFilament[] {
+  if (slicePlate && slicePlate.filaments.length > 0) {
+    return slicePlate.filaments;
+  }
+
+  return metadata.filamentWeightG.flatMap((grams, index) => {
+    const lengthMm = metadata.filamentLengthMm[index];
+    if (!(grams > 0) && !(lengthMm > 0)) return [];
+
+    return [
+      {
+        id: index + 1,
+        trayInfoIdx: '',
+        type: profile.filamentTypes[index] ?? '',
+        color: '',
+        usedMeters: lengthMm !== undefined ? lengthMm / 1000 : null,
+        usedGrams: grams,
+      },
+    ];
+  });
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,107 @@
+import type { GCodeFile, SplitLimits } from '../types';
+import { getFilamentWeight, getPrintSeconds } from './gcodeHeader';
+import { expandPrintSequence, type PrintJob } from './printSequence';
+
+export const NO_SPLIT_LIMITS: SplitLimits = {
+  maxSeconds: null,
+  maxPrints: null,
+  maxGrams: null,
+};
+
+export interface BatchPart {
+  /** 1-based. */
+  partNumber: number;
+  totalParts: number;
+  /** The part's files, with copies cut down to the prints it runs. */
+  files: GCodeFile[];
+  /** The part's prints, numbered as in the whole job. */
+  jobs: PrintJob[];
+  /** Every print of the whole job, including those before `fromPrint`. */
+  wholeJob: PrintJob[];
+  /** Where the part's prints sit in the whole job, 1-based and inclusive. */
+  firstPrintNumber: number;
+  lastPrintNumber: number;
+  totalPrints: number;
+}
+
+interface PartTotals {
+  prints: number;
+  seconds: number;
+  grams: number;
+}
+
+function exceedsLimits(totals: PartTotals, limits: SplitLimits): boolean {
+  return (
+    (limits.maxPrints !== null && totals.prints > limits.maxPrints) ||
+    (limits.maxSeconds !== null && totals.seconds > limits.maxSeconds) ||
+    (limits.maxGrams !== null && totals.grams > limits.maxGrams)
+  );
+}
+
+/** Merges neighbouring copies of the same file back into one entry. */
+function groupJobs(jobs: PrintJob[]): GCodeFile[] {
+  const files: GCodeFile[] = [];
+
+  for (const [index, job] of jobs.entries()) {
+    if (index > 0 && jobs[index - 1].file.id === job.file.id) {
+      const last = files[files.length - 1];
+      files[files.length - 1] = { ...last, copies: last.copies + 1 };
+    } else {
+      files.push({ ...job.file, copies: 1 });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Cuts the print sequence into consecutive parts that each stay within
+ * `limits`, keeping the order. A single print that is over a limit on its
+ * own still gets a part to itself, as a print can't be split. Prints before
+ * `fromPrint` are left out, for resuming a batch that failed part-way.
+ */
+export function splitBatch(
+  files: GCodeFile[],
+  limits: SplitLimits,
+  fromPrint = 1,
+): BatchPart[] {
+  const allJobs = expandPrintSequence(files);
+  const jobs = allJobs.slice(Math.max(0, fromPrint - 1));
+  const groups: PrintJob[][] = [];
+  let current: PrintJob[] = [];
+  let totals: PartTotals = { prints: 0, seconds: 0, grams: 0 };
+
+  for (const job of jobs) {
+    const seconds = getPrintSeconds(job.file.metadata) ?? 0;
+    const grams = getFilamentWeight(job.file.metadata);
+    const next = {
+      prints: totals.prints + 1,
+      seconds: totals.seconds + seconds,
+      grams: totals.grams + grams,
+    };
+
+    if (current.length > 0 && exceedsLimits(next, limits)) {
+      groups.push(current);
+      current = [job];
+      totals = { prints: 1, seconds, grams };
+    } else {
+      current.push(job);
+      totals = next;
+    }
+  }
+
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  return groups.map((group, index) => ({
+    partNumber: index + 1,
+    totalParts: groups.length,
+    files: groupJobs(group),
+    jobs: group,
+    wholeJob: allJobs,
+    firstPrintNumber: group[0].printNumber,
+    lastPrintNumber: group[group.length - 1].printNumber,
+    totalPrints: allJobs.length,
+  }));
+}
@@ -0,0 +1,237 @@
+import type {
+  BedOffset,
+  BedOffsetOptions,
+  BedOffsetPattern,
+  GCodeFile,
+} from '../types';
+import {
+  CONDITIONAL_BLOCK_END,
+  CONDITIONAL_BLOCK_START,
+  findSections,
+  parseCommand,
+  shiftNumber,
+  TOOL_CHANGE_END,
+  TOOL_CHANGE_START,
+} from './gcodeSections';
+import { findPrinter } from './printers';
+import type { PrintJob } from './printSequence';
+
+export const NO_BED_OFFSET: BedOffsetOptions = { pattern: 'off', stepMm: 10 };
+
+export const BED_OFFSET_PATTERN_LABELS: Record<BedOffsetPattern, string> = {
+  off: 'Same spot every time',
+  grid: 'Walk a 3 × 3 grid',
+  cycle: 'Cycle around the centre',
+  random: 'Random within bounds',
+};
+
+/** Written into a print's separator when it was moved. */
+export const BED_OFFSET_COMMENT = '; Bed offset:';
+
+// Positions in steps, starting with where the plate was sliced
+const PATTERN_STEPS: Record<'grid' | 'cycle', [number, number][]> = {
+  grid: [
+    [0, 0],
+    [-1, -1],
+    [0, -1],
+    [1, -1],
+    [1, 0],
+    [1, 1],
+    [0, 1],
+    [-1, 1],
+    [-1, 0],
+  ],
+  cycle: [
+    [0, 0],
+    [1, 0],
+    [0, 1],
+    [-1, 0],
+    [0, -1],
+  ],
+};
+
+const COORDINATE_PATTERN = /(^|\s)([XY])(-?\d+(?:\.\d+)?)(?=\s|$)/g;
+
+/** A small seeded generator, so combining the same batch twice matches. */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashString(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (Math.imul(hash, 31) + text.charCodeAt(i)) | 0;
+  }
+  return hash;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Pulls a step back into the range that keeps the plate on the bed. An
+ * axis that isn't meant to move stays put, and so does one whose range
+ * doesn't include where the plate was sliced: the plate is never pushed.
+ */
+function clampStep(wanted: number, min: number, max: number): number {
+  if (wanted === 0 || min > 0 || max < 0) return 0;
+  return clamp(wanted, min, max);
+}
+
+function getPatternOffset(
+  file: GCodeFile,
+  index: number,
+  options: BedOffsetOptions,
+): BedOffset {
+  if (options.pattern === 'off' || index === 0) return { x: 0, y: 0 };
+
+  if (options.pattern === 'random') {
+    const random = createRandom(hashString(file.fileName) + index);
+    return {
+      x: Math.round((random() * 2 - 1) * options.stepMm),
+      y: Math.round((random() * 2 - 1) * options.stepMm),
+    };
+  }
+
+  const steps = PATTERN_STEPS[options.pattern];
+  const [stepX, stepY] = steps[index % steps.length];
+  return { x: stepX * options.stepMm, y: stepY * options.stepMm };
+}
+
+/**
+ * How many times each print's plate has already printed earlier in `jobs`,
+ * keyed by print number. Plates are matched by their G-code, so the count
+ * carries on across entries the optimizer split a plate into or a job
+ * listed twice.
+ */
+export function countEarlierPrints(jobs: PrintJob[]): Map<number, number> {
+  const printed = new Map<string, number>();
+  const counts = new Map<number, number>();
+
+  for (const job of jobs) {
+    const count = printed.get(job.file.gcode) ?? 0;
+    counts.set(job.printNumber, count);
+    printed.set(job.file.gcode, count + 1);
+  }
+
+  return counts;
+}
+
+/**
+ * Where `file` prints after it has already printed `earlierPrints` times
+ * (see countEarlierPrints), relative to where it was sliced. The first
+ * print never moves. Offsets are pulled back so every move offsetPlate
+ * shifts, travels included, stays on the printer's bed; plates without a
+ * known printer or moves aren't moved at all.
+ */
+export function getBedOffset(
+  file: GCodeFile,
+  earlierPrints: number,
+  options: BedOffsetOptions,
+): BedOffset {
+  const wanted = getPatternOffset(file, earlierPrints, options);
+  if (wanted.x === 0 && wanted.y === 0) return wanted;
+
+  const printer = file.profile.printerModel
+    ? findPrinter(file.profile.printerModel)
+    : null;
+  const bounds = file.scan.moveBounds;
+  if (!printer || !bounds) return { x: 0, y: 0 };
+
+  const [width, depth] = printer.buildVolume;
+  const minX = Math.ceil(-bounds.minX);
+  const maxX = Math.floor(width - bounds.maxX);
+  const minY = Math.ceil(-bounds.minY);
+  const maxY = Math.floor(depth - bounds.maxY);
+
+  return {
+    x: clampStep(wanted.x, minX, maxX),
+    y: clampStep(wanted.y, minY, maxY),
+  };
+}
+
+export function isZeroOffset(offset: BedOffset): boolean {
+  return offset.x === 0 && offset.y === 0;
+}
+
+function formatAxis(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+export function formatBedOffset(offset: BedOffset): string {
+  return `X${formatAxis(offset.x)} Y${formatAxis(offset.y)} mm`;
+}
+
+/**
+ * Moves a plate's print by `offset`: absolute X and Y of every move between
+ * the start and end G-code, except inside tool changes and conditional
+ * blocks. Homing, purge lines and parking stay where the printer expects
+ * them. The same number of
+ * decimals is kept, so shifting back by the opposite offset restores the
+ * original text.
+ */
+export function offsetPlate(gcode: string, offset: BedOffset): string {
+  if (isZeroOffset(offset)) return gcode;
+
+  const sections = findSections(gcode);
+  const bodyStart = sections.startEnd ?? 0;
+  const bodyEnd = sections.endStart ?? gcode.length;
+  const deltas: Record<string, number> = { X: offset.x, Y: offset.y };
+
+  let absolute = true;
+  let inToolChange = false;
+  let inConditional = false;
+  const lines = gcode.slice(bodyStart, bodyEnd).split('\n');
+
+  for (const [index, line] of lines.entries()) {
+    const parsed = parseCommand(line);
+    if (!parsed) continue;
+
+    switch (parsed.command) {
+      case 'G90':
+        absolute = true;
+        break;
+      case 'G91':
+        absolute = false;
+        break;
+      case TOOL_CHANGE_START:
+        inToolChange = true;
+        break;
+      case TOOL_CHANGE_END:
+        inToolChange = false;
+        break;
+      case CONDITIONAL_BLOCK_START:
+        inConditional = true;
+        break;
+      case CONDITIONAL_BLOCK_END:
+        inConditional = false;
+        break;
+      case 'G0':
+      case 'G1':
+      case 'G2':
+      case 'G3': {
+        if (!absolute || inToolChange || inConditional) break;
+
+        const commentStart = line.indexOf(';');
+        const code = commentStart === -1 ? line : line.slice(0, commentStart);
+        lines[index] =
+          code.replace(
+            COORDINATE_PATTERN,
+            (_, space: string, axis: string, value: string) =>
+              `${space}${axis}${shiftNumber(value, deltas[axis])}`,
+          ) + line.slice(code.length);
+        break;
+      }
+    }
+  }
+
+  return gcode.slice(0, bodyStart) + lines.join('\n') + gcode.slice(bodyEnd);
+}
@@ -0,0 +1,122 @@
+import {
+  findSections,
+  getStartGCodeRange,
+  parseCommand,
+} from './gcodeSections';
+
+export type CalibrationStep =
+  | 'bedLeveling'
+  | 'vibrationCompensation'
+  | 'flowCalibration'
+  | 'purgeLine';
+
+export const CALIBRATION_STEP_LABELS: Record<CalibrationStep, string> = {
+  bedLeveling: 'bed leveling',
+  vibrationCompensation: 'vibration compensation',
+  flowCalibration: 'flow calibration',
+  purgeLine: 'purge line',
+};
+
+/**
+ * Trimmed lines are commented out with this prefix rather than deleted, so
+ * the original start G-code can be recovered from a combined file.
+ */
+export const CALIBRATE_ONCE_PREFIX = '; [calibrate-once] ';
+const CALIBRATE_ONCE_PATTERN = /^; \[calibrate-once\] /gm;
+
+// Bambu start G-code splits into sections headed ";===== bed leveling =====";
+// a heading ending in "end" closes the section without opening another.
+const SECTION_HEADING_PATTERN = /^\s*;\s*={3,}\s*(.*?)\s*=*\s*$/;
+const SECTION_END_PATTERN = /\bend$/i;
+
+const SECTION_STEPS: [CalibrationStep, RegExp][] = [
+  ['bedLeveling', /bed lev/i],
+  ['vibrationCompensation', /mech mode|vibration|resonance|input shap/i],
+  ['flowCalibration', /extrude cali|flow cali|flow dynamics|pa cali/i],
+  ['purgeLine', /nozzle load line|purge|prime line/i],
+];
+
+// Other slicers have no section headings, so single commands are matched.
+const COMMAND_STEPS: Record<string, CalibrationStep> = {
+  G29: 'bedLeveling',
+  M970: 'vibrationCompensation',
+  'M970.3': 'vibrationCompensation',
+  M974: 'vibrationCompensation',
+};
+
+// Heating, homing, positioning and extrusion modes and the textured-plate
+// Z offset (G29.1) always run, even inside a trimmed section, so the next
+// print never starts cold, from an unknown position, in the wrong mode or
+// at the wrong height.
+const KEPT_COMMANDS = new Set([
+  'M104',
+  'M109',
+  'M140',
+  'M190',
+  'G28',
+  'G29.1',
+  'G90',
+  'G91',
+  'M82',
+  'M83',
+]);
+
+function findSectionStep(heading: string): CalibrationStep | null {
+  for (const [step, pattern] of SECTION_STEPS) {
+    if (pattern.test(heading)) return step;
+  }
+  return null;
+}
+
+export interface TrimmedStartGCode {
+  gcode: string;
+  removed: CalibrationStep[];
+}
+
+/**
+ * Comments out the calibration blocks in a plate's start G-code (bed
+ * leveling, vibration compensation, flow calibration and the purge line),
+ * for prints that follow one that already ran them.
+ */
+export function trimStartCalibration(gcode: string): TrimmedStartGCode {
+  const range = getStartGCodeRange(gcode, findSections(gcode));
+  if (!range) return { gcode, removed: [] };
+
+  const removed = new Set<CalibrationStep>();
+  let currentStep: CalibrationStep | null = null;
+
+  const lines = gcode
+    .slice(range.from, range.to)
+    .split('\n')
+    .map((line) => {
+      const heading = line.match(SECTION_HEADING_PATTERN);
+      if (heading) {
+        currentStep = SECTION_END_PATTERN.test(heading[1])
+          ? null
+          : findSectionStep(heading[1]);
+        return line;
+      }
+
+      const parsed = parseCommand(line);
+      if (!parsed) return line;
+
+      const step = currentStep ?? COMMAND_STEPS[parsed.command] ?? null;
+      if (step === null || KEPT_COMMANDS.has(parsed.command)) return line;
+
+      removed.add(step);
+      return `${CALIBRATE_ONCE_PREFIX}${line}`;
+    });
+
+  if (removed.size === 0) return { gcode, removed: [] };
+
+  return {
+    gcode:
+      gcode.slice(0, range.from) + lines.join('\n') + gcode.slice(range.to),
+    removed: Array.from(removed),
+  };
+}
+
+/** Undoes `trimStartCalibration` on G-code read back from a combined file. */
+export function restoreStartCalibration(gcode: string): string {
+  return gcode.replace(CALIBRATE_ONCE_PATTERN, '');
+}
@@ -0,0 +1,31 @@
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/** Formats a date for a `datetime-local` input, in local time. */
+export function toDateTimeInputValue(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Reads a `datetime-local` input value as local time. Falls back to now for
+ * an empty or partial value.
+ */
+export function parseDateTimeInputValue(value: string): Date {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+}
+
+/**
+ * Formats a clock time, prefixed with the weekday when it falls on another
+ * day than `reference`.
+ */
+export function formatClockTime(date: Date, reference: Date): string {
+  const time = date.toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  if (date.toDateString() === reference.toDateString()) return time;
+
+  return `${date.toLocaleDateString([], { weekday: 'short' })} ${time}`;
+}
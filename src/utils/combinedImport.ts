@@ -0,0 +1,123 @@
+import type { BedOffset, PrintOverrides } from '../types';
+import { offsetPlate } from './bedOffset';
+import { restoreStartCalibration } from './calibration';
+import { EJECTION_MACRO_END, EJECTION_MACRO_START } from './ejectionMacros';
+import { FILAMENT_CHANGE_END, FILAMENT_CHANGE_START } from './filamentChange';
+import { getPrintSeconds, parseGCodeHeader } from './gcodeHeader';
+import {
+  MAINTENANCE_END,
+  MAINTENANCE_START,
+  readMaintenanceSeconds,
+} from './maintenance';
+import { isSameOverrides, removePrintOverrides } from './printOverrides';
+import { layOutProgressWindows, restoreProgressCommands } from './progress';
+
+export const COMBINED_FILE_TITLE = ';===== COMBINED PRINT FILE =====';
+
+// Every print starts with a separator written by createPrintSeparator:
+// a blank line, then the title and any bed offset framed by two rules of
+// 40 "=". The title names the plate by its display name; files combined
+// before that carry the file name instead.
+const PRINT_SEPARATOR_PATTERN =
+  /\n;={40}\n;===== PRINT \d+ of \d+: (.*?)(?: \(Copy \d+\/\d+\))? =====\n(?:; Bed offset: X\+?(-?\d+) Y\+?(-?\d+) mm\n)?;={40}\n/g;
+
+// Blocks the combiner injects ahead of a plate's own G-code
+const INJECTED_BLOCKS: [string, string][] = [
+  [EJECTION_MACRO_START, EJECTION_MACRO_END],
+  [MAINTENANCE_START, MAINTENANCE_END],
+  [FILAMENT_CHANGE_START, FILAMENT_CHANGE_END],
+];
+
+export interface RecoveredPlate {
+  /** The name the plate was combined under, from its separators. */
+  name: string;
+  gcode: string;
+  copies: number;
+  overrides: PrintOverrides;
+}
+
+export function isCombinedGCode(gcode: string): boolean {
+  return gcode.startsWith(`;${'='.repeat(40)}\n${COMBINED_FILE_TITLE}\n`);
+}
+
+function stripInjectedBlocks(section: string): string {
+  let gcode = section;
+
+  for (;;) {
+    const block = INJECTED_BLOCKS.find(([start]) => gcode.startsWith(start));
+    if (!block) return gcode;
+
+    const end = gcode.indexOf(`${block[1]}\n`);
+    if (end === -1) return gcode;
+    gcode = gcode.slice(end + block[1].length + 1);
+  }
+}
+
+/**
+ * Splits a combined file back into the plates it was built from. Each print
+ * loses its ejection, maintenance and filament-change blocks, its bed offset
+ * and its overrides, which are returned alongside it. It gets its
+ * calibration and progress commands back, and runs of identical prints
+ * become one plate with a copy count. Tool changes keep the AMS slots they
+ * were mapped to.
+ */
+export function decomposeCombinedGCode(gcode: string): RecoveredPlate[] {
+  const separators = Array.from(gcode.matchAll(PRINT_SEPARATOR_PATTERN));
+  const sections = separators.map((match, index) => {
+    const start = (match.index ?? 0) + match[0].length;
+    const end =
+      index + 1 < separators.length
+        ? (separators[index + 1].index ?? gcode.length)
+        : gcode.length;
+    // Moved copies go back to where they were sliced
+    const offset: BedOffset = {
+      x: -Number.parseInt(match[2] ?? '0', 10),
+      y: -Number.parseInt(match[3] ?? '0', 10),
+    };
+    const section = gcode.slice(start, end);
+    const plate = stripInjectedBlocks(section);
+    // Overrides come out before calibration is restored, so commented-out
+    // heater commands aren't shifted back
+    const { gcode: sliced, overrides } = removePrintOverrides(plate);
+    return {
+      name: match[1],
+      gcode: offsetPlate(restoreStartCalibration(sliced), offset),
+      overrides,
+      // Maintenance ran ahead of the print on the progress timeline
+      leadSeconds: readMaintenanceSeconds(
+        section.slice(0, section.length - plate.length),
+      ),
+    };
+  });
+
+  const windows = layOutProgressWindows(
+    sections.map(
+      (section) => getPrintSeconds(parseGCodeHeader(section.gcode)) ?? 0,
+    ),
+    sections.map((section) => section.leadSeconds),
+  );
+
+  const plates: RecoveredPlate[] = [];
+  for (const [index, section] of sections.entries()) {
+    const plateGCode = restoreProgressCommands(section.gcode, windows[index]);
+    const last = plates[plates.length - 1];
+
+    if (
+      last &&
+      last.name === section.name &&
+      last.gcode === plateGCode &&
+      isSameOverrides(last.overrides, section.overrides)
+    ) {
+      last.copies++;
+    } else {
+      plates.push({
+        name: section.name,
+        gcode: plateGCode,
+        copies: 1,
+        overrides: section.overrides,
+      });
+    }
+  }
+
+  return plates;
+}
@@ -0,0 +1,261 @@
+import type { GCodeFile, SliceInfoFilament } from '../types';
+import { escapeXml, readMetadataEntries } from './archiveMetadata';
+import { getFilamentSlot } from './filamentSlots';
+import { calculateTotalSeconds } from './fileProcessor';
+import { getFilamentWeight } from './gcodeHeader';
+import { findPrinter } from './printers';
+import { getPrintLabel, type PrintJob } from './printSequence';
+
+export const SLICE_INFO_PATH = 'Metadata/slice_info.config';
+export const MODEL_SETTINGS_PATH = 'Metadata/model_settings.config';
+export const CONTENT_TYPES_PATH = '[Content_Types].xml';
+export const RELATIONSHIPS_PATH = '_rels/.rels';
+export const MODEL_PATH = '3D/3dmodel.model';
+
+const DEFAULT_SLICE_INFO_HEADER = [
+  '  <header>',
+  '    <header_item key="X-BBL-Client-Type" value="slicer"/>',
+  '    <header_item key="X-BBL-Client-Version" value=""/>',
+  '  </header>',
+].join('\n');
+
+// Per-plate assets Bambu Studio writes next to the G-code, e.g.
+// plate_2.png, plate_2_small.png, plate_2.json, top_2.png, pick_2.png.
+const PLATE_ASSET_PATTERN =
+  /^(Metadata\/(?:plate|plate_no_light|top|pick)_)(\d+)((?:_small)?\.[a-z]+)$/i;
+
+/**
+ * Decides what happens to a template archive entry that belongs to a plate:
+ * the combined archive only has plate 1, so the template plate's assets are
+ * renamed to plate 1 and every other plate's assets are dropped (null).
+ * Entries that aren't plate assets are returned unchanged.
+ */
+export function mapPlateAsset(
+  filePath: string,
+  templatePlate: number,
+): string | null {
+  const match = filePath.match(PLATE_ASSET_PATTERN);
+  if (!match) return filePath;
+
+  return Number.parseInt(match[2], 10) === templatePlate
+    ? `${match[1]}1${match[3]}`
+    : null;
+}
+
+function formatMetadataLine(key: string, value: string): string {
+  return `    <metadata key="${escapeXml(key)}" value="${escapeXml(value)}"/>`;
+}
+
+function findPlateBlock(xml: string, plateNumber: number, idKey: string) {
+  for (const match of xml.matchAll(/<plate>[\s\S]*?<\/plate>/g)) {
+    const entries = readMetadataEntries(match[0]);
+    if (Number.parseInt(entries.get(idKey) ?? '', 10) === plateNumber) {
+      return match[0];
+    }
+  }
+  return null;
+}
+
+/**
+ * Sums filament usage per slot across every print in the batch, after each
+ * file's filaments are mapped onto the shared AMS layout.
+ */
+export function sumFilamentUsage(files: GCodeFile[]): SliceInfoFilament[] {
+  const slots = new Map<number, SliceInfoFilament>();
+
+  for (const file of files) {
+    for (const filament of file.filaments) {
+      const id = getFilamentSlot(file, filament.id);
+      const slot = slots.get(id) ?? {
+        ...filament,
+        id,
+        usedMeters: 0,
+        usedGrams: 0,
+      };
+      slot.usedMeters =
+        (slot.usedMeters ?? 0) + (filament.usedMeters ?? 0) * file.copies;
+      slot.usedGrams =
+        (slot.usedGrams ?? 0) + (filament.usedGrams ?? 0) * file.copies;
+      slots.set(id, slot);
+    }
+  }
+
+  return Array.from(slots.values()).sort((a, b) => a.id - b.id);
+}
+
+function createDefaultPlateMetadata(file: GCodeFile): Map<string, string> {
+  const metadata = new Map<string, string>();
+  const printer = file.profile.printerModel
+    ? findPrinter(file.profile.printerModel)
+    : null;
+
+  if (printer) {
+    metadata.set('printer_model_id', printer.modelIds[0]);
+  }
+  if (file.profile.nozzleDiameter !== null) {
+    metadata.set('nozzle_diameters', String(file.profile.nozzleDiameter));
+  }
+
+  return metadata;
+}
+
+/**
+ * Builds slice_info.config for the combined archive, so the printer screen
+ * and Bambu Handy show the whole batch: total prediction and weight, the
+ * summed filament usage per slot and the print list as objects. Machine
+ * settings are kept from the template plate; without one (plain G-code
+ * uploads) they're filled in from the first file's print profile.
+ * `jobs` are the prints the archive runs, numbered as in the whole job so
+ * split and resumed parts match their G-code. `extraSeconds` (e.g.
+ * maintenance) is added to the prediction.
+ */
+export function createSliceInfo(
+  files: GCodeFile[],
+  jobs: PrintJob[],
+  templateXml: string | null,
+  templatePlate: number,
+  batchName: string,
+  extraSeconds = 0,
+): string {
+  const header =
+    templateXml?.match(/ {0,2}<header>[\s\S]*?<\/header>/)?.[0] ??
+    DEFAULT_SLICE_INFO_HEADER;
+  const plateBlock = templateXml
+    ? findPlateBlock(templateXml, templatePlate, 'index')
+    : null;
+
+  const metadata = plateBlock
+    ? readMetadataEntries(plateBlock)
+    : createDefaultPlateMetadata(files[0]);
+  const totalWeight = files.reduce(
+    (sum, file) => sum + getFilamentWeight(file.metadata) * file.copies,
+    0,
+  );
+
+  metadata.set('index', '1');
+  const totalSeconds = calculateTotalSeconds(files);
+  metadata.set(
+    'prediction',
+    String(totalSeconds === null ? 0 : totalSeconds + extraSeconds),
+  );
+  metadata.set('weight', totalWeight.toFixed(2));
+  // Object labels in the combined G-code repeat per copy, so the printer's
+  // skip-object list can't map onto them
+  metadata.set('label_object_enabled', 'false');
+  metadata.set('batch_name', batchName);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<config>',
+    header,
+    '  <plate>',
+    ...Array.from(metadata, ([key, value]) => formatMetadataLine(key, value)),
+  ];
+
+  for (const job of jobs) {
+    lines.push(
+      `    <object identify_id="${job.printNumber}" name="${escapeXml(`${job.printNumber}. ${getPrintLabel(job, job.file.displayName)}`)}" skipped="false" />`,
+    );
+  }
+
+  for (const filament of sumFilamentUsage(files)) {
+    lines.push(
+      `    <filament id="${filament.id}" tray_info_idx="${escapeXml(filament.trayInfoIdx)}" type="${escapeXml(filament.type)}" color="${escapeXml(filament.color)}" used_m="${(filament.usedMeters ?? 0).toFixed(2)}" used_g="${(filament.usedGrams ?? 0).toFixed(2)}" />`,
+    );
+  }
+
+  lines.push('  </plate>', '</config>', '');
+  return lines.join('\n');
+}
+
+function setPlateMetadata(block: string, key: string, value: string): string {
+  const pattern = new RegExp(`<metadata key="${key}" value="[^"]*"\\s*/>`);
+  const replacement = `<metadata key="${key}" value="${escapeXml(value)}"/>`;
+
+  return pattern.test(block)
+    ? block.replace(pattern, replacement)
+    : block.replace('<plate>', `<plate>\n    ${replacement}`);
+}
+
+/**
+ * Keeps only the template plate in model_settings.config, renumbered to
+ * plate 1 and named after the batch. The object definitions are untouched.
+ */
+export function rewriteModelSettings(
+  xml: string,
+  templatePlate: number,
+  batchName: string,
+): string {
+  const plateBlock = findPlateBlock(xml, templatePlate, 'plater_id');
+  if (plateBlock === null) return xml;
+
+  let block = plateBlock.replace(
+    new RegExp(
+      `(Metadata/(?:plate|plate_no_light|top|pick)_)${templatePlate}\\b`,
+      'g',
+    ),
+    (_, prefix: string) => `${prefix}1`,
+  );
+  block = setPlateMetadata(block, 'plater_id', '1');
+  block = setPlateMetadata(block, 'plater_name', batchName);
+
+  let replaced = false;
+  return xml.replace(
+    /([ \t]*)<plate>[\s\S]*?<\/plate>\r?\n?/g,
+    (_, indent: string) => {
+      if (replaced) return '';
+      replaced = true;
+      return `${indent}${block}\n`;
+    },
+  );
+}
+
+/**
+ * The package files Bambu Studio writes around every .gcode.3mf. Only needed
+ * when no upload came with an archive to copy them from; the firmware finds
+ * the G-code through the relationships, and the model part stays empty.
+ */
+export function createPackageFiles(
+  gcodePath: string,
+  hasThumbnail: boolean,
+): Record<string, string> {
+  const relationships = [
+    `  <Relationship Target="/${MODEL_PATH}" Id="rel-1" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>`,
+    ...(hasThumbnail
+      ? [
+          '  <Relationship Target="/Metadata/plate_1.png" Id="rel-2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/thumbnail"/>',
+        ]
+      : []),
+    `  <Relationship Target="/${gcodePath}" Id="rel-3" Type="http://schemas.bambulab.com/package/2021/gcode"/>`,
+  ];
+
+  return {
+    [CONTENT_TYPES_PATH]: [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+      '  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+      '  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>',
+      '  <Default Extension="png" ContentType="image/png"/>',
+      '  <Default Extension="gcode" ContentType="text/x.gcode"/>',
+      '</Types>',
+      '',
+    ].join('\n'),
+    [RELATIONSHIPS_PATH]: [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+      ...relationships,
+      '</Relationships>',
+      '',
+    ].join('\n'),
+    [MODEL_PATH]: [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02" xmlns:BambuStudio="http://schemas.bambulab.com/package/2021">',
+      '  <metadata name="Application">GCode Combiner</metadata>',
+      '  <metadata name="BambuStudio:3mfVersion">1</metadata>',
+      '  <resources/>',
+      '  <build/>',
+      '</model>',
+      '',
+    ].join('\n'),
+  };
+}
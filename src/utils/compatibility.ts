@@ -0,0 +1,112 @@
+import type {
+  CompatibilityField,
+  CompatibilityIssue,
+  GCodeFile,
+  PrintProfile,
+} from '../types';
+
+export const COMPATIBILITY_LABELS: Record<CompatibilityField, string> = {
+  printerModel: 'Printer',
+  nozzleDiameter: 'Nozzle',
+  bedType: 'Bed type',
+  filamentType: 'Filament',
+};
+
+function formatNozzle(diameter: number): string {
+  return `${diameter} mm`;
+}
+
+function compareProfiles(
+  reference: PrintProfile,
+  profile: PrintProfile,
+  allowFilamentChanges: boolean,
+): CompatibilityIssue[] {
+  const issues: CompatibilityIssue[] = [];
+
+  if (
+    reference.printerModel &&
+    profile.printerModel &&
+    reference.printerModel !== profile.printerModel
+  ) {
+    issues.push({
+      field: 'printerModel',
+      expected: reference.printerModel,
+      actual: profile.printerModel,
+    });
+  }
+
+  if (
+    reference.nozzleDiameter !== null &&
+    profile.nozzleDiameter !== null &&
+    reference.nozzleDiameter !== profile.nozzleDiameter
+  ) {
+    issues.push({
+      field: 'nozzleDiameter',
+      expected: formatNozzle(reference.nozzleDiameter),
+      actual: formatNozzle(profile.nozzleDiameter),
+    });
+  }
+
+  if (
+    reference.bedType &&
+    profile.bedType &&
+    reference.bedType !== profile.bedType
+  ) {
+    issues.push({
+      field: 'bedType',
+      expected: reference.bedType,
+      actual: profile.bedType,
+    });
+  }
+
+  // A plate may use a subset of the reference filaments, but not a
+  // material the reference plate wasn't sliced for.
+  const unexpectedTypes = profile.filamentTypes.filter(
+    (type) =>
+      !allowFilamentChanges &&
+      reference.filamentTypes.length > 0 &&
+      !reference.filamentTypes.includes(type),
+  );
+  if (unexpectedTypes.length > 0) {
+    issues.push({
+      field: 'filamentType',
+      expected: reference.filamentTypes.join(', '),
+      actual: unexpectedTypes.join(', '),
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Compares every file against the first one in the list, which is also the
+ * template for the combined archive. Fields a file doesn't report are not
+ * treated as mismatches. Only files with issues appear in the result.
+ * `changesFilamentBefore` holds the files the batch stops before to swap
+ * filament; from the first of them on, other materials are expected.
+ */
+export function checkCompatibility(
+  files: GCodeFile[],
+  changesFilamentBefore: ReadonlySet<string> = new Set(),
+): Map<string, CompatibilityIssue[]> {
+  const results = new Map<string, CompatibilityIssue[]>();
+  if (files.length < 2) return results;
+
+  const reference = files[0].profile;
+  let filamentChanged = false;
+
+  for (const file of files.slice(1)) {
+    if (changesFilamentBefore.has(file.id)) filamentChanged = true;
+
+    const issues = compareProfiles(reference, file.profile, filamentChanged);
+    if (issues.length > 0) {
+      results.set(file.id, issues);
+    }
+  }
+
+  return results;
+}
+
+export function describeCompatibilityIssue(issue: CompatibilityIssue): string {
+  return `${COMPATIBILITY_LABELS[issue.field]}: ${issue.actual} (batch uses ${issue.expected})`;
+}
@@ -0,0 +1,96 @@
+import type { GCodeFile } from '../types';
+
+// Bambu Studio renders plate_N.png at 512px and plate_N_small.png at 128px
+export const THUMBNAIL_SIZE = 512;
+export const SMALL_THUMBNAIL_SIZE = 128;
+
+const CELL_PADDING_RATIO = 0.04;
+
+async function loadImage(dataUrl: string): Promise<ImageBitmap> {
+  const response = await fetch(dataUrl);
+  return createImageBitmap(await response.blob());
+}
+
+function drawCopyBadge(
+  context: OffscreenCanvasRenderingContext2D,
+  copies: number,
+  right: number,
+  bottom: number,
+  cellSize: number,
+): void {
+  const fontSize = Math.max(10, Math.round(cellSize * 0.14));
+  const label = `×${copies}`;
+
+  context.font = `600 ${fontSize}px sans-serif`;
+  const width = context.measureText(label).width + fontSize * 0.6;
+  const height = fontSize * 1.4;
+
+  context.fillStyle = 'rgba(26, 21, 18, 0.8)';
+  context.fillRect(right - width, bottom - height, width, height);
+  context.fillStyle = '#e8a84c';
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillText(label, right - width / 2, bottom - height / 2);
+}
+
+/**
+ * Tiles the plate thumbnails of every file in the batch into one square
+ * image, with the copy count in the corner of each tile, so the printer
+ * screen shows the whole batch rather than just the first model. Returns
+ * null when there are fewer than `minimumTiles` thumbnails or the browser
+ * can't draw off-screen.
+ */
+export async function createContactSheet(
+  files: GCodeFile[],
+  size: number,
+  minimumTiles = 2,
+): Promise<Blob | null> {
+  const tiles = files.filter(
+    (file): file is GCodeFile & { thumbnail: string } =>
+      file.thumbnail !== null,
+  );
+  if (
+    tiles.length === 0 ||
+    tiles.length < minimumTiles ||
+    typeof OffscreenCanvas === 'undefined'
+  ) {
+    return null;
+  }
+
+  const columns = Math.ceil(Math.sqrt(tiles.length));
+  const rows = Math.ceil(tiles.length / columns);
+  const cellSize = size / columns;
+  const padding = cellSize * CELL_PADDING_RATIO;
+  const offsetY = (size - rows * cellSize) / 2;
+
+  const canvas = new OffscreenCanvas(size, size);
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  for (const [index, file] of tiles.entries()) {
+    const image = await loadImage(file.thumbnail);
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    const x = column * cellSize + padding;
+    const y = offsetY + row * cellSize + padding;
+    const inner = cellSize - padding * 2;
+
+    const scale = Math.min(inner / image.width, inner / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    context.drawImage(
+      image,
+      x + (inner - width) / 2,
+      y + (inner - height) / 2,
+      width,
+      height,
+    );
+    image.close();
+
+    if (file.copies > 1) {
+      drawCopyBadge(context, file.copies, x + inner, y + inner, cellSize);
+    }
+  }
+
+  return canvas.convertToBlob({ type: 'image/png' });
+}
@@ -0,0 +1,170 @@
+import type { EjectionAnalysis } from '../types';
+import { EJECTION_MACRO_START } from './ejectionMacros';
+import {
+  findSections,
+  getEndGCode,
+  getStartGCode,
+  parseCommand,
+  resolveAxis,
+} from './gcodeSections';
+
+// Waiting for the bed to drop below this temperature means the routine is
+// letting the part release before pushing it off.
+const COOLDOWN_MAX_BED_TEMP = 45;
+// A dwell this long after turning the bed off counts as a cooldown wait.
+const COOLDOWN_MIN_DWELL_SECONDS = 60;
+// Push-off moves travel most of the bed with the nozzle close to it.
+const PUSH_OFF_MAX_Z = 5;
+const PUSH_OFF_MIN_TRAVEL = 100;
+const PUSH_OFF_MIN_MOVES = 2;
+
+// Only markers a known ejection routine leaves behind count on their own:
+// the automation profile names itself in its comments, and our own macros
+// start with EJECTION_MACRO_START. Loose words like "eject" show up in any
+// comment, e.g. "; no eject".
+const PROFILE_MARKER_PATTERN = /factorian/i;
+// Slicer settings such as "; machine_end_gcode = ..." quote the profile's
+// G-code on a single comment line and would otherwise match the markers.
+const CONFIG_LINE_PATTERN = /^\s*;\s*\w+\s*=/;
+
+interface SectionSignals {
+  cooldownWait: boolean;
+  pushOffMoves: number;
+  marker: boolean;
+}
+
+function scanSection(section: string): SectionSignals {
+  const signals: SectionSignals = {
+    cooldownWait: false,
+    pushOffMoves: 0,
+    marker: false,
+  };
+
+  let absolute = true;
+  let bedOff = false;
+  let x: number | null = null;
+  let y: number | null = null;
+  let z: number | null = null;
+
+  for (const line of section.split('\n')) {
+    const commentStart = line.indexOf(';');
+    if (
+      line.trimStart().startsWith(EJECTION_MACRO_START) ||
+      (commentStart !== -1 &&
+        !CONFIG_LINE_PATTERN.test(line) &&
+        PROFILE_MARKER_PATTERN.test(line.slice(commentStart + 1)))
+    ) {
+      signals.marker = true;
+    }
+
+    const parsed = parseCommand(line);
+    if (!parsed) continue;
+    const { command, params } = parsed;
+
+    switch (command) {
+      case 'G90':
+        absolute = true;
+        break;
+      case 'G91':
+        absolute = false;
+        break;
+      case 'G28':
+        x = y = z = null;
+        break;
+      case 'M140':
+        bedOff = params.get('S') === 0;
+        break;
+      case 'M190': {
+        const target = params.get('R') ?? params.get('S');
+        if (target !== undefined && target <= COOLDOWN_MAX_BED_TEMP) {
+          signals.cooldownWait = true;
+        }
+        break;
+      }
+      case 'G4': {
+        const seconds = params.get('S') ?? (params.get('P') ?? 0) / 1000;
+        if (bedOff && seconds >= COOLDOWN_MIN_DWELL_SECONDS) {
+          signals.cooldownWait = true;
+        }
+        break;
+      }
+      case 'G0':
+      case 'G1': {
+        const nextX = resolveAxis(x, params.get('X'), absolute);
+        const nextY = resolveAxis(y, params.get('Y'), absolute);
+        const nextZ = resolveAxis(z, params.get('Z'), absolute);
+
+        const extruding = (params.get('E') ?? 0) > 0;
+        const travel = Math.max(
+          x !== null && nextX !== null ? Math.abs(nextX - x) : 0,
+          y !== null && nextY !== null ? Math.abs(nextY - y) : 0,
+        );
+
+        if (
+          !extruding &&
+          nextZ !== null &&
+          nextZ <= PUSH_OFF_MAX_Z &&
+          travel >= PUSH_OFF_MIN_TRAVEL
+        ) {
+          signals.pushOffMoves++;
+        }
+
+        x = nextX;
+        y = nextY;
+        z = nextZ;
+        break;
+      }
+    }
+  }
+
+  return signals;
+}
+
+/**
+ * Looks for an ejection routine in a plate's start and end G-code: a wait
+ * for the bed to cool followed by low sweeping moves that push the part off,
+ * or the markers of a known routine: Factorian Designs' automation profiles
+ * or one of our ejection macros.
+ */
+export function analyzeEjection(gcode: string): EjectionAnalysis {
+  const sections = findSections(gcode);
+  const start = scanSection(getStartGCode(gcode, sections));
+  const end = scanSection(getEndGCode(gcode, sections));
+
+  const cooldownWait = start.cooldownWait || end.cooldownWait;
+  const pushOff =
+    Math.max(start.pushOffMoves, end.pushOffMoves) >= PUSH_OFF_MIN_MOVES;
+  const marker = start.marker || end.marker;
+
+  if (marker || (cooldownWait && pushOff)) {
+    return {
+      status: 'present',
+      explanation: marker
+        ? 'Found automation profile markers in the start/end G-code.'
+        : 'Found a bed cooldown wait followed by push-off moves.',
+    };
+  }
+
+  if (sections.endStart === null) {
+    return {
+      status: 'unknown',
+      explanation:
+        "Couldn't locate the end G-code, so the ejection routine couldn't be checked.",
+    };
+  }
+
+  if (cooldownWait || pushOff) {
+    return {
+      status: 'unknown',
+      explanation: cooldownWait
+        ? 'Found a bed cooldown wait, but no moves that push the part off.'
+        : 'Found low sweeping moves, but no wait for the bed to cool down first.',
+    };
+  }
+
+  return {
+    status: 'missing',
+    explanation:
+      'No cooldown wait or push-off moves in the start/end G-code. The next print would start on top of this part.',
+  };
+}
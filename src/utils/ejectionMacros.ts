@@ -0,0 +1,219 @@
+import type { BedOffset, EjectionMacro, GCodeFile } from '../types';
+import { normalizePrinterName } from './printers';
+
+export const EJECTION_MACRO_START = '; EJECTION_MACRO_START';
+export const EJECTION_MACRO_END = '; EJECTION_MACRO_END';
+
+// The nozzle clears the tallest part by this much on its way to the back of
+// the bed, comes down this far behind it, and pushes this close to the
+// build plate.
+const CLEARANCE_MARGIN_MM = 5;
+const PUSH_START_MARGIN_MM = 5;
+const PUSH_HEIGHT_MM = 2;
+
+const NO_OFFSET: BedOffset = { x: 0, y: 0 };
+
+function createPushOffLanes(lanes: number[], frontY: number): string[] {
+  return lanes.flatMap((x) => [
+    `G1 X${x} Y{push_start_y} F12000`,
+    `G1 Z${PUSH_HEIGHT_MM} F1200`,
+    `G1 Y${frontY} F3000 ; push`,
+    'G1 Z{clearance_z} F1200',
+  ]);
+}
+
+function createCooldown(bedTemperature: number, fans: string[]): string[] {
+  return [
+    '; Cool the bed so the part lets go',
+    'M104 S0 ; hotend off',
+    'M140 S0 ; bed off',
+    ...fans.map((fan) => `M106 ${fan} S255`),
+    `M190 R${bedTemperature} ; wait for the bed to cool down`,
+    ...fans.map((fan) => `M106 ${fan} S0`),
+  ];
+}
+
+interface PushOffPrinter {
+  id: string;
+  printerModel: string;
+  name: string;
+  maxZ: number;
+  backY: number;
+  /** X of each lane the nozzle pushes along, spread across the bed. */
+  lanes: number[];
+  /** Bed temperature parts let go at. */
+  releaseTemperature: number;
+  /** Part cooling fans that help the bed cool down. */
+  fans: string[];
+  pushComment: string;
+}
+
+const PUSH_OFF_PRINTERS: PushOffPrinter[] = [
+  {
+    id: 'a1',
+    printerModel: 'Bambu Lab A1',
+    name: 'A1 push-off',
+    maxZ: 256,
+    backY: 250,
+    lanes: [40, 100, 160, 220],
+    releaseTemperature: 28,
+    fans: ['P1'],
+    pushComment: '; Push the part off the front of the bed',
+  },
+  {
+    id: 'a1-mini',
+    printerModel: 'Bambu Lab A1 mini',
+    name: 'A1 mini push-off',
+    maxZ: 180,
+    backY: 175,
+    lanes: [30, 90, 150],
+    releaseTemperature: 28,
+    fans: ['P1'],
+    pushComment: '; Push the part off the front of the bed',
+  },
+  {
+    id: 'p1s',
+    printerModel: 'Bambu Lab P1S',
+    name: 'P1S push-off (front door removed)',
+    maxZ: 256,
+    backY: 250,
+    lanes: [40, 100, 160, 220],
+    releaseTemperature: 30,
+    fans: ['P1', 'P2'],
+    pushComment: '; Push the part out through the open front',
+  },
+  {
+    id: 'x1c',
+    printerModel: 'Bambu Lab X1 Carbon',
+    name: 'X1C push-off (front door removed)',
+    maxZ: 256,
+    backY: 250,
+    lanes: [40, 100, 160, 220],
+    releaseTemperature: 30,
+    fans: ['P1', 'P2'],
+    pushComment: '; Push the part out through the open front',
+  },
+];
+
+/**
+ * Between-print sequences for printers that have been tested with them.
+ * A template's G-code never changes once released; fixes ship as a new
+ * version so combined files can always be traced to the exact sequence.
+ * `{clearance_z}` is filled in per print from the previous part's height,
+ * and `{push_start_y}` from how far back its footprint reaches.
+ */
+export const EJECTION_MACROS: EjectionMacro[] = PUSH_OFF_PRINTERS.map(
+  (printer) => ({
+    id: printer.id,
+    version: 1,
+    printerModel: printer.printerModel,
+    name: printer.name,
+    maxZ: printer.maxZ,
+    backY: printer.backY,
+    template: [
+      ...createCooldown(printer.releaseTemperature, printer.fans),
+      printer.pushComment,
+      'G90',
+      'G1 Z{clearance_z} F1200',
+      ...createPushOffLanes(printer.lanes, 0),
+      'G28 ; re-home before the next print',
+    ].join('\n'),
+  }),
+);
+
+export function getEjectionMacroKey(macro: EjectionMacro): string {
+  return `${macro.id}@${macro.version}`;
+}
+
+export function findEjectionMacro(key: string): EjectionMacro | null {
+  return (
+    EJECTION_MACROS.find((macro) => getEjectionMacroKey(macro) === key) ?? null
+  );
+}
+
+/**
+ * The newest template for the printer the batch was sliced for, if there is
+ * one.
+ */
+export function findEjectionMacroForPrinter(
+  printerModel: string | null,
+): EjectionMacro | null {
+  if (!printerModel) return null;
+
+  const printerName = normalizePrinterName(printerModel);
+  const matches = EJECTION_MACROS.filter(
+    (macro) => macro.printerModel === printerName,
+  );
+
+  return matches.reduce<EjectionMacro | null>(
+    (newest, macro) =>
+      newest === null || macro.version > newest.version ? macro : newest,
+    null,
+  );
+}
+
+/**
+ * How high the nozzle travels over `file`'s part on its way to the back of
+ * the bed, and whether that actually clears the part. The part's height
+ * comes from the slicer's header, or else the highest Z the plate moves to.
+ * When neither is known the nozzle travels as high as the macro allows and
+ * `knownHeight` is false, since nobody can tell whether that clears it.
+ */
+export function getEjectionClearance(
+  macro: EjectionMacro,
+  file: GCodeFile,
+): { clearanceZ: number; fits: boolean; knownHeight: boolean } {
+  const partHeight = file.metadata.maxZHeight ?? file.scan.maxZ;
+  if (partHeight === null) {
+    return { clearanceZ: macro.maxZ, fits: true, knownHeight: false };
+  }
+  const wantedZ = Math.ceil(partHeight + CLEARANCE_MARGIN_MM);
+
+  return {
+    clearanceZ: Math.min(macro.maxZ, wantedZ),
+    fits: wantedZ <= macro.maxZ,
+    knownHeight: true,
+  };
+}
+
+/**
+ * Where the nozzle comes down behind `file`'s part to push it off, given
+ * where the print put it, and whether that is actually behind it. Parts
+ * without a known footprint are pushed from the macro's back edge.
+ */
+export function getPushStart(
+  macro: EjectionMacro,
+  file: GCodeFile,
+  offset: BedOffset = NO_OFFSET,
+): { y: number; fits: boolean } {
+  const bounds = file.scan.extrusionBounds;
+  if (!bounds) return { y: macro.backY, fits: true };
+
+  const wantedY = Math.ceil(bounds.maxY + offset.y + PUSH_START_MARGIN_MM);
+  return {
+    y: Math.min(macro.backY, wantedY),
+    fits: wantedY <= macro.backY,
+  };
+}
+
+/**
+ * Renders the sequence that clears `previousFile`'s part off the bed,
+ * wrapped in markers that name the template and its version.
+ */
+export function renderEjectionMacro(
+  macro: EjectionMacro,
+  previousFile: GCodeFile,
+  previousOffset: BedOffset = NO_OFFSET,
+): string {
+  const { clearanceZ } = getEjectionClearance(macro, previousFile);
+  const pushStart = getPushStart(macro, previousFile, previousOffset);
+
+  return [
+    `${EJECTION_MACRO_START} ${macro.id} v${macro.version}`,
+    macro.template
+      .replace(/\{clearance_z\}/g, String(clearanceZ))
+      .replace(/\{push_start_y\}/g, String(pushStart.y)),
+    EJECTION_MACRO_END,
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,136 @@
+import type { FilamentChangeMode, GCodeFile } from '../types';
+import { describeFilament, formatSlot, getFilamentSlot } from './filamentSlots';
+
+export const FILAMENT_CHANGE_START = '; FILAMENT_CHANGE_START';
+export const FILAMENT_CHANGE_END = '; FILAMENT_CHANGE_END';
+
+export const FILAMENT_CHANGE_MODE_LABELS: Record<FilamentChangeMode, string> = {
+  off: 'Off — run straight on',
+  pause: 'Pause the printer',
+  m600: 'Filament change (M600)',
+};
+
+export interface FilamentChange {
+  /**
+   * What has to come out, e.g. "A1 PLA #000000"; without per-slot usage just
+   * the filaments, e.g. "PLA #000000".
+   */
+  from: string;
+  to: string;
+}
+
+/**
+ * The filaments a plate loads, as sorted "TYPE #COLOR" labels. Falls back to
+ * the profile's filament types when the archive had no per-slot usage.
+ */
+export function getFilamentLabels(file: GCodeFile): string[] {
+  const labels =
+    file.filaments.length > 0
+      ? file.filaments.map(describeFilament)
+      : file.profile.filamentTypes;
+
+  return Array.from(new Set(labels.filter(Boolean))).sort();
+}
+
+/** The filament each AMS slot a plate pulls from has to hold. */
+function getSlotFilaments(file: GCodeFile): Map<number, string> {
+  const slots = new Map<number, string>();
+  for (const filament of file.filaments) {
+    const label = describeFilament(filament);
+    if (label) slots.set(getFilamentSlot(file, filament.id), label);
+  }
+  return slots;
+}
+
+/**
+ * Works out whether `next` needs other filament loaded after the `earlier`
+ * prints, in print order. A slot holds whatever the last print that pulled
+ * from it used, and slots no earlier print touched are taken to be loaded
+ * as the batch's slot layout says. So AMS plates that pull different
+ * filaments from different slots never need a change; only a slot that has
+ * to hold something else does. Plates without per-slot usage are compared
+ * with the print right before them by their filaments alone. Returns null
+ * when nothing has to change or a plate doesn't say what it uses.
+ */
+export function findFilamentChange(
+  earlier: GCodeFile[],
+  next: GCodeFile,
+): FilamentChange | null {
+  const previous = earlier[earlier.length - 1];
+  if (!previous) return null;
+
+  const wanted = getSlotFilaments(next);
+  if (wanted.size === 0 || getSlotFilaments(previous).size === 0) {
+    const from = getFilamentLabels(previous);
+    const to = getFilamentLabels(next);
+    if (from.length === 0 || to.length === 0) return null;
+    if (from.join('|') === to.join('|')) return null;
+
+    return { from: from.join(', '), to: to.join(', ') };
+  }
+
+  // Walk back only as far as it takes to find what each wanted slot holds
+  const loaded = new Map<number, string>();
+  for (let i = earlier.length - 1; i >= 0 && loaded.size < wanted.size; i--) {
+    for (const [slot, filament] of getSlotFilaments(earlier[i])) {
+      if (wanted.has(slot) && !loaded.has(slot)) loaded.set(slot, filament);
+    }
+  }
+
+  const swaps = Array.from(wanted).filter(
+    ([slot, filament]) => loaded.has(slot) && loaded.get(slot) !== filament,
+  );
+  if (swaps.length === 0) return null;
+
+  return {
+    from: swaps
+      .map(([slot]) => `${formatSlot(slot)} ${loaded.get(slot)}`)
+      .join(', '),
+    to: swaps
+      .map(([slot, filament]) => `${formatSlot(slot)} ${filament}`)
+      .join(', '),
+  };
+}
+
+/**
+ * The filament changes needed before each file, keyed by file id. Copies of
+ * the same file never need one, so each file is checked once, after the
+ * files before it in the list.
+ */
+export function findFilamentChanges(
+  files: GCodeFile[],
+): Map<string, FilamentChange> {
+  const changes = new Map<string, FilamentChange>();
+
+  for (let i = 1; i < files.length; i++) {
+    const change = findFilamentChange(files.slice(0, i), files[i]);
+    if (change) {
+      changes.set(files[i].id, change);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Renders the stop before a print that needs other filament. Both modes show
+ * what to load on the printer screen; `pause` waits for the operator to
+ * resume, `m600` runs the firmware's own unload/load routine.
+ */
+export function renderFilamentChange(
+  change: FilamentChange,
+  mode: Exclude<FilamentChangeMode, 'off'>,
+): string {
+  const message = `Load ${change.to}`.replace(/;/g, ',');
+
+  return [
+    `${FILAMENT_CHANGE_START} ${mode}`,
+    `; Previous print: ${change.from}`,
+    `; Next print: ${change.to}`,
+    'M400',
+    `M117 ${message}`,
+    mode === 'pause' ? 'M400 U1 ; pause until resumed' : 'M600',
+    FILAMENT_CHANGE_END,
+    '',
+  ].join('\n');
+}
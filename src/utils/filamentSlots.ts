@@ -0,0 +1,74 @@
+import type { GCodeFile, SliceInfoFilament } from '../types';
+
+/** Four AMS units of four trays each. */
+export const AMS_SLOT_COUNT = 16;
+
+// Tool changes in Bambu G-code: "T<n>" plus the "M620 S<n>A" / "M621 S<n>A"
+// pair around the change. Tool numbers are 0-based; filament ids are 1-based.
+// Special tools (T255 unload, T1000 and T1100 in the start G-code) are above
+// AMS_SLOT_COUNT and never remapped.
+const TOOL_COMMAND_PATTERN = /^([ \t]*)(T|M620 S|M621 S)(\d+)(?=A|\s|;|$)/gm;
+
+export function getFilamentSlot(file: GCodeFile, filamentId: number): number {
+  return file.filamentSlots[filamentId] ?? filamentId;
+}
+
+export function formatSlot(slot: number): string {
+  // Bambu Studio labels trays by AMS unit letter and tray number, e.g. "B2"
+  const unit = String.fromCharCode(65 + Math.floor((slot - 1) / 4));
+  return `${unit}${((slot - 1) % 4) + 1}`;
+}
+
+export function describeFilament(filament: SliceInfoFilament): string {
+  return [filament.type, filament.color.toUpperCase()]
+    .filter(Boolean)
+    .join(' ');
+}
+
+export function hasRemappedSlots(file: GCodeFile): boolean {
+  return Object.entries(file.filamentSlots).some(
+    ([filamentId, slot]) => Number(filamentId) !== slot,
+  );
+}
+
+/**
+ * Rewrites a plate's tool changes so each filament is pulled from the slot
+ * it was mapped to in the shared AMS layout.
+ */
+export function remapToolCommands(gcode: string, file: GCodeFile): string {
+  if (!hasRemappedSlots(file)) return gcode;
+
+  return gcode.replace(
+    TOOL_COMMAND_PATTERN,
+    (match, indent: string, command: string, tool: string) => {
+      const filamentId = Number.parseInt(tool, 10) + 1;
+      if (filamentId > AMS_SLOT_COUNT) return match;
+
+      return `${indent}${command}${getFilamentSlot(file, filamentId) - 1}`;
+    },
+  );
+}
+
+/**
+ * The shared AMS layout the batch expects: which filaments each slot has to
+ * hold. A slot with more than one entry is a conflict, as two plates want
+ * different filament in it.
+ */
+export function buildSlotLayout(files: GCodeFile[]): Map<number, string[]> {
+  const layout = new Map<number, Set<string>>();
+
+  for (const file of files) {
+    for (const filament of file.filaments) {
+      const slot = getFilamentSlot(file, filament.id);
+      const filaments = layout.get(slot) ?? new Set<string>();
+      filaments.add(describeFilament(filament) || `Filament ${filament.id}`);
+      layout.set(slot, filaments);
+    }
+  }
+
+  return new Map(
+    Array.from(layout)
+      .sort(([a], [b]) => a - b)
+      .map(([slot, filaments]) => [slot, Array.from(filaments)]),
+  );
+}
@@ -1,5 +1,34 @@
 import JSZip from 'jszip';
-import type { ExtractedPlates, GCodeFile, ParsedGCodeInfo } from '../types';
+import type {
+  ExtractedPlates,
+  GCodeFile,
+  ParsedGCodeInfo,
+  PlateSettings,
+  ProcessedUpload,
+  ProgressCallback,
+  ProjectSettings,
+  SkippedPlate,
+  SliceInfoPlate,
+} from '../types';
+import {
+  buildFilamentUsage,
+  buildPrintProfile,
+  readGCodeRelationships,
+  readModelSettingsPlates,
+  readPlateThumbnail,
+  readProjectSettings,
+  readSliceInfo,
+} from './archiveMetadata';
+import { decomposeCombinedGCode, isCombinedGCode } from './combinedImport';
+import { analyzeEjection } from './ejectionDetector';
+import {
+  extractEmbeddedThumbnail,
+  getPrintSeconds,
+  parseGCodeHeader,
+} from './gcodeHeader';
+import { scanPlate } from './gcodeLinter';
+import { getUploadKey } from './jobManifest';
+import { NO_OVERRIDES } from './printOverrides';
 
 export class FileProcessingError extends Error {
   constructor(message: string) {
@@ -12,35 +41,7 @@ function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 }
 
-function parseEstimatedTime(gcode: string): string | null {
-  // Bambu Lab slicer typically includes time estimates in comments like:
-  // ; estimated printing time (normal mode) = 1h 23m 45s
-  // ; total estimated time: 1234
-  // Or in the format: ;TIME:1234 (seconds)
-
-  const timePatterns = [
-    /;\s*estimated printing time.*?=\s*(.+?)(?:\n|$)/i,
-    /;\s*TIME[_:]?\s*(\d+)/i,
-    /;\s*total estimated time[:\s]*(.+?)(?:\n|$)/i,
-  ];
-
-  for (const pattern of timePatterns) {
-    const match = gcode.match(pattern);
-    if (match) {
-      const value = match[1].trim();
-      // If it's just a number, it's likely seconds
-      if (/^\d+$/.test(value)) {
-        const seconds = Number.parseInt(value, 10);
-        return formatSeconds(seconds);
-      }
-      return value;
-    }
-  }
-
-  return null;
-}
-
-function formatSeconds(totalSeconds: number): string {
+export function formatSeconds(totalSeconds: number): string {
   const hours = Math.floor(totalSeconds / 3600);
   const minutes = Math.floor((totalSeconds % 3600) / 60);
   const seconds = totalSeconds % 60;
@@ -53,8 +54,189 @@ function formatSeconds(totalSeconds: number): string {
   return parts.join(' ');
 }
 
+const PLATE_GCODE_PATTERN = /^Metadata\/plate_(\d+)\.gcode$/;
+
+function getDefaultGCodePath(plateNumber: number): string {
+  return `Metadata/plate_${plateNumber}.gcode`;
+}
+
+/**
+ * Lists every plate the archive describes, with the path its G-code should
+ * be at. Plates come from model_settings.config (which also lists un-sliced
+ * plates), slice_info.config and the package relationships; any other
+ * G-code in the archive is appended after the highest plate number.
+ */
+async function discoverPlates(
+  zip: JSZip,
+  plateSettings: PlateSettings[],
+  sliceInfo: SliceInfoPlate[],
+): Promise<Map<number, string>> {
+  const gcodePaths = new Map<number, string>();
+
+  for (const plate of plateSettings) {
+    gcodePaths.set(
+      plate.plateNumber,
+      plate.gcodePath ?? getDefaultGCodePath(plate.plateNumber),
+    );
+  }
+
+  for (const plate of sliceInfo) {
+    if (!gcodePaths.has(plate.index)) {
+      gcodePaths.set(plate.index, getDefaultGCodePath(plate.index));
+    }
+  }
+
+  const archiveGCode = Object.keys(zip.files)
+    .filter((name) => name.endsWith('.gcode') && !zip.files[name].dir)
+    .sort();
+  const looseGCode: string[] = [];
+
+  for (const path of [
+    ...(await readGCodeRelationships(zip)),
+    ...archiveGCode,
+  ]) {
+    const plateMatch = path.match(PLATE_GCODE_PATTERN);
+    if (!plateMatch) {
+      if (!looseGCode.includes(path)) looseGCode.push(path);
+      continue;
+    }
+
+    const plateNumber = Number.parseInt(plateMatch[1], 10);
+    const knownPath = gcodePaths.get(plateNumber);
+    if (knownPath === undefined || !zip.file(knownPath)) {
+      gcodePaths.set(plateNumber, path);
+    }
+  }
+
+  let nextPlateNumber = Math.max(0, ...gcodePaths.keys()) + 1;
+  for (const path of looseGCode) {
+    if (![...gcodePaths.values()].includes(path)) {
+      gcodePaths.set(nextPlateNumber++, path);
+    }
+  }
+
+  return new Map([...gcodePaths].sort(([a], [b]) => a - b));
+}
+
+function describeSkippedPlate(plate: SkippedPlate): string {
+  const label = plate.name
+    ? `Plate ${plate.plateNumber} ("${plate.name}")`
+    : `Plate ${plate.plateNumber}`;
+
+  return plate.reason === 'empty'
+    ? `${label} is empty.`
+    : `${label} wasn't sliced or exported, so it has no G-code.`;
+}
+
+function parsePlate(
+  gcode: string,
+  plateNumber: number,
+  plateName: string | null,
+  thumbnail: string | null,
+  archive?: {
+    slicePlate: SliceInfoPlate | undefined;
+    projectSettings: ProjectSettings | null;
+  },
+): ParsedGCodeInfo {
+  const metadata = parseGCodeHeader(gcode);
+  const profile = buildPrintProfile(
+    gcode,
+    metadata,
+    archive?.slicePlate,
+    archive?.projectSettings ?? null,
+  );
+
+  return {
+    gcode,
+    lineCount: gcode.split('\n').length,
+    metadata,
+    profile,
+    filaments: buildFilamentUsage(metadata, profile, archive?.slicePlate),
+    ejection: analyzeEjection(gcode),
+    scan: scanPlate(gcode),
+    thumbnail,
+    plateNumber,
+    plateName,
+    copies: 1,
+    overrides: NO_OVERRIDES,
+  };
+}
+
+/**
+ * Reads the plates back out of a file this app combined. They all come from
+ * the combined plate, so they share its number; plates that were combined
+ * under the same file name are numbered apart.
+ */
+function parseCombinedPlates(
+  gcode: string,
+  plateNumber: number,
+  projectSettings: ProjectSettings | null = null,
+): ParsedGCodeInfo[] {
+  const recovered = decomposeCombinedGCode(gcode);
+  const seen = new Map<string, string[]>();
+
+  for (const plate of recovered) {
+    const contents = seen.get(plate.name) ?? [];
+    if (!contents.includes(plate.gcode)) contents.push(plate.gcode);
+    seen.set(plate.name, contents);
+  }
+
+  return recovered.map((plate) => {
+    const contents = seen.get(plate.name) ?? [];
+    const label =
+      contents.length > 1
+        ? `${plate.name} — Plate ${contents.indexOf(plate.gcode) + 1}`
+        : plate.name;
+
+    return {
+      ...parsePlate(
+        plate.gcode,
+        plateNumber,
+        label,
+        extractEmbeddedThumbnail(plate.gcode),
+        { slicePlate: undefined, projectSettings },
+      ),
+      copies: plate.copies,
+      overrides: plate.overrides,
+    };
+  });
+}
+
+export function isPlainGCodeFile(fileName: string): boolean {
+  return /\.gcode$/i.test(fileName);
+}
+
+/**
+ * Reads a plain .gcode upload (e.g. from OrcaSlicer or a script) as a single
+ * plate. There's no archive around it, so everything comes from the G-code.
+ */
+export async function extractPlateFromGCode(
+  file: File,
+): Promise<ExtractedPlates> {
+  const gcode = await file.text();
+
+  if (!/^\s*[GM]\d+/m.test(gcode)) {
+    throw new FileProcessingError(
+      `"${file.name}" doesn't contain any G-code commands.`,
+    );
+  }
+
+  const combined = isCombinedGCode(gcode);
+
+  return {
+    plates: combined
+      ? parseCombinedPlates(gcode, 1)
+      : [parsePlate(gcode, 1, null, extractEmbeddedThumbnail(gcode))],
+    skippedPlates: [],
+    originalZip: null,
+    fileName: file.name,
+    combined,
+  };
+}
+
 export async function extractAllPlatesFromZip(
   file: File,
+  onProgress?: ProgressCallback,
 ): Promise<ExtractedPlates> {
   let zip: JSZip;
   let arrayBuffer: ArrayBuffer;
@@ -69,115 +251,149 @@ export async function extractAllPlatesFromZip(
   }
 
   const plates: ParsedGCodeInfo[] = [];
+  const sliceInfo = await readSliceInfo(zip);
+  const projectSettings = await readProjectSettings(zip);
 
-  // Look for all plate G-code files (plate_1.gcode through plate_16.gcode to be safe)
-  for (let plateNum = 1; plateNum <= 16; plateNum++) {
-    const gcodePath = `Metadata/plate_${plateNum}.gcode`;
-    const gcodeFile = zip.file(gcodePath);
+  const plateSettings = await readModelSettingsPlates(zip);
+  const skippedPlates: SkippedPlate[] = [];
 
-    if (gcodeFile) {
-      const gcodeContent = await gcodeFile.async('string');
-      const lineCount = gcodeContent.split('\n').length;
-      const estimatedTime = parseEstimatedTime(gcodeContent);
+  const discoveredPlates = await discoverPlates(zip, plateSettings, sliceInfo);
+  let checkedPlates = 0;
+  let combined = false;
 
-      plates.push({
-        gcode: gcodeContent,
-        lineCount,
-        estimatedTime,
-        plateNumber: plateNum,
+  for (const [plateNumber, gcodePath] of discoveredPlates) {
+    onProgress?.(checkedPlates++ / discoveredPlates.size);
+    const settings = plateSettings.find(
+      (plate) => plate.plateNumber === plateNumber,
+    );
+    const plateName = settings?.name ?? null;
+    const gcodeFile = zip.file(gcodePath);
+
+    if (!gcodeFile) {
+      skippedPlates.push({
+        plateNumber,
+        name: plateName,
+        reason: settings?.objectCount === 0 ? 'empty' : 'unsliced',
       });
+      continue;
     }
-  }
 
-  // If no plates found in standard locations, search for any .gcode files
-  if (plates.length === 0) {
-    const allFiles = Object.keys(zip.files);
-    const gcodeFiles = allFiles
-      .filter((name) => name.endsWith('.gcode') && !zip.files[name].dir)
-      .sort();
-
-    for (let i = 0; i < gcodeFiles.length; i++) {
-      const gcodeContent = await zip.file(gcodeFiles[i])?.async('string');
-      if (gcodeContent) {
-        const lineCount = gcodeContent.split('\n').length;
-        const estimatedTime = parseEstimatedTime(gcodeContent);
-
-        plates.push({
-          gcode: gcodeContent,
-          lineCount,
-          estimatedTime,
-          plateNumber: i + 1,
-        });
-      }
+    const gcodeContent = await gcodeFile.async('string');
+    if (isCombinedGCode(gcodeContent)) {
+      plates.push(
+        ...parseCombinedPlates(gcodeContent, plateNumber, projectSettings),
+      );
+      combined = true;
+      continue;
     }
+
+    const thumbnail =
+      (await readPlateThumbnail(zip, plateNumber)) ??
+      extractEmbeddedThumbnail(gcodeContent);
+
+    plates.push(
+      parsePlate(gcodeContent, plateNumber, plateName, thumbnail, {
+        slicePlate: sliceInfo.find((plate) => plate.index === plateNumber),
+        projectSettings,
+      }),
+    );
   }
 
   if (plates.length === 0) {
     throw new FileProcessingError(
-      `"${file.name}" doesn't contain any G-code. Make sure you exported it as "All plates sliced file" or "Plate sliced file" from Bambu Studio.`,
+      skippedPlates.length > 0
+        ? `"${file.name}" has ${skippedPlates.length} plate${skippedPlates.length !== 1 ? 's' : ''}, but none of them contain G-code. Slice them in Bambu Studio before exporting.`
+        : `"${file.name}" doesn't contain any G-code. Make sure you exported it as "All plates sliced file" or "Plate sliced file" from Bambu Studio.`,
     );
   }
 
   return {
     plates,
+    skippedPlates,
     originalZip: arrayBuffer,
     fileName: file.name,
+    combined,
   };
 }
 
-export async function processUploadedFile(file: File): Promise<GCodeFile[]> {
-  const { plates, originalZip, fileName } = await extractAllPlatesFromZip(file);
-
-  const isMultiPlate = plates.length > 1;
-
-  return plates.map((plate) => ({
-    id: generateId(),
-    fileName: fileName,
-    displayName: isMultiPlate
-      ? `${fileName} — Plate ${plate.plateNumber}`
-      : fileName,
-    gcode: plate.gcode,
-    originalZip: originalZip,
-    lineCount: plate.lineCount,
-    estimatedTime: plate.estimatedTime,
-    copies: 1,
-    plateNumber: plate.plateNumber,
-    sourceFile: fileName,
-  }));
-}
-
-export function parseTimeToSeconds(timeStr: string): number {
-  // Parse formats like "1h 23m 45s" or "1h23m45s" or just "1234"
-  if (/^\d+$/.test(timeStr.trim())) {
-    return Number.parseInt(timeStr.trim(), 10);
+export async function processUploadedFile(
+  file: File,
+  onProgress?: ProgressCallback,
+): Promise<ProcessedUpload> {
+  const { plates, skippedPlates, originalZip, fileName, combined } =
+    isPlainGCodeFile(file.name)
+      ? await extractPlateFromGCode(file)
+      : await extractAllPlatesFromZip(file, onProgress);
+
+  const isMultiPlate = plates.length > 1 || skippedPlates.length > 0;
+
+  const sourceKey = getUploadKey(file);
+  const files = plates.map((plate, plateIndex) => {
+    const plateLabel = plate.plateName ?? `Plate ${plate.plateNumber}`;
+    // Plates recovered from a combined file go back under their own names
+    const plateFileName = combined ? plateLabel : fileName;
+
+    return {
+      id: generateId(),
+      fileName: plateFileName,
+      displayName:
+        !combined && (isMultiPlate || plate.plateName)
+          ? `${fileName} — ${plateLabel}`
+          : plateFileName,
+      gcode: plate.gcode,
+      originalZip: originalZip,
+      lineCount: plate.lineCount,
+      metadata: plate.metadata,
+      profile: plate.profile,
+      filaments: plate.filaments,
+      ejection: plate.ejection,
+      scan: plate.scan,
+      thumbnail: plate.thumbnail,
+      copies: plate.copies,
+      filamentSlots: {},
+      overrides: plate.overrides,
+      plateNumber: plate.plateNumber,
+      sourceFile: fileName,
+      sourceKey,
+      plateIndex,
+    };
+  });
+
+  const notices = skippedPlates.map(
+    (plate) => `"${fileName}": ${describeSkippedPlate(plate)}`,
+  );
+  if (combined) {
+    const totalPrints = files.reduce((sum, f) => sum + f.copies, 0);
+    notices.push(
+      `"${fileName}" is a combined file, so it was split back into ${files.length} file${files.length !== 1 ? 's' : ''} (${totalPrints} print${totalPrints !== 1 ? 's' : ''}). Tool changes keep the AMS slots they were mapped to.`,
+    );
   }
 
-  let totalSeconds = 0;
-
-  const hourMatch = timeStr.match(/(\d+)\s*h/i);
-  const minMatch = timeStr.match(/(\d+)\s*m/i);
-  const secMatch = timeStr.match(/(\d+)\s*s/i);
-
-  if (hourMatch) totalSeconds += Number.parseInt(hourMatch[1], 10) * 3600;
-  if (minMatch) totalSeconds += Number.parseInt(minMatch[1], 10) * 60;
-  if (secMatch) totalSeconds += Number.parseInt(secMatch[1], 10);
-
-  return totalSeconds;
+  return { files, notices };
 }
 
-export function calculateTotalTime(files: GCodeFile[]): string | null {
+export function calculateTotalSeconds(files: GCodeFile[]): number | null {
   let totalSeconds = 0;
   let hasAnyTime = false;
 
   for (const file of files) {
-    if (file.estimatedTime) {
+    const seconds = getPrintSeconds(file.metadata);
+    if (seconds !== null) {
       hasAnyTime = true;
-      const seconds = parseTimeToSeconds(file.estimatedTime);
       totalSeconds += seconds * file.copies;
     }
   }
 
-  if (!hasAnyTime) return null;
+  return hasAnyTime ? totalSeconds : null;
+}
 
-  return formatSeconds(totalSeconds);
+/** `extraSeconds` (e.g. maintenance) only counts when the files have times. */
+export function calculateTotalTime(
+  files: GCodeFile[],
+  extraSeconds = 0,
+): string | null {
+  const totalSeconds = calculateTotalSeconds(files);
+  return totalSeconds === null
+    ? null
+    : formatSeconds(totalSeconds + extraSeconds);
 }
@@ -1,15 +1,92 @@
 import JSZip from 'jszip';
-import type { GCodeFile } from '../types';
+import type {
+  BedOffset,
+  CombineOptions,
+  GCodeFile,
+  MaintenanceBlock,
+  ProgressCallback,
+} from '../types';
+import { getChecksumPath } from './archiveChecksums';
+import type { BatchPart } from './batchSplit';
+import {
+  BED_OFFSET_COMMENT,
+  BED_OFFSET_PATTERN_LABELS,
+  countEarlierPrints,
+  formatBedOffset,
+  getBedOffset,
+  isZeroOffset,
+  offsetPlate,
+} from './bedOffset';
+import { CALIBRATION_STEP_LABELS, trimStartCalibration } from './calibration';
+import { COMBINED_FILE_TITLE } from './combinedImport';
+import {
+  createPackageFiles,
+  createSliceInfo,
+  MODEL_SETTINGS_PATH,
+  mapPlateAsset,
+  rewriteModelSettings,
+  SLICE_INFO_PATH,
+} from './combinedMetadata';
+import {
+  createContactSheet,
+  SMALL_THUMBNAIL_SIZE,
+  THUMBNAIL_SIZE,
+} from './contactSheet';
+import {
+  FILAMENT_CHANGE_MODE_LABELS,
+  findFilamentChanges,
+} from './filamentChange';
+import {
+  formatSlot,
+  getFilamentSlot,
+  hasRemappedSlots,
+  remapToolCommands,
+} from './filamentSlots';
 import { calculateTotalTime } from './fileProcessor';
+import {
+  describeMaintenanceRule,
+  getMaintenanceSeconds,
+  getScheduledBlocks,
+  scheduleJobMaintenance,
+} from './maintenance';
+import { Md5 } from './md5';
+import {
+  applyPrintOverrides,
+  describeOverrides,
+  hasOverrides,
+} from './printOverrides';
+import { renderPrintPrelude } from './printPlan';
+import {
+  createBatchName,
+  expandPrintSequence,
+  getPrintLabel,
+  type PrintJob,
+} from './printSequence';
+import {
+  createProgressTimeline,
+  rewriteProgressCommand,
+  splitAtProgressCommands,
+} from './progress';
+import { type ZipEntryWriter, ZipWriter } from './zipStream';
 
+const COMBINED_GCODE_PATH = 'Metadata/plate_1.gcode';
+
+const encoder = new TextEncoder();
+
+/**
+ * The comment block ahead of each print. It names the print by the plate's
+ * display name, which is what a re-imported file gets its names back from.
+ */
 function createPrintSeparator(
   printNumber: number,
   totalPrints: number,
-  fileName: string,
+  displayName: string,
   copyNumber?: number,
   totalCopies?: number,
+  offset?: BedOffset,
 ): string {
   const lines: string[] = ['', ';========================================'];
+  const name = displayName.replace(/\n/g, ' ');
 
   if (
     copyNumber !== undefined &&
@@ -17,12 +94,14 @@ function createPrintSeparator(
     totalCopies > 1
   ) {
     lines.push(
-      `;===== PRINT ${printNumber} of ${totalPrints}: ${fileName} (Copy ${copyNumber}/${totalCopies}) =====`,
+      `;===== PRINT ${printNumber} of ${totalPrints}: ${name} (Copy ${copyNumber}/${totalCopies}) =====`,
     );
   } else {
-    lines.push(
-      `;===== PRINT ${printNumber} of ${totalPrints}: ${fileName} =====`,
-    );
+    lines.push(`;===== PRINT ${printNumber} of ${totalPrints}: ${name} =====`);
+  }
+
+  if (offset && !isZeroOffset(offset)) {
+    lines.push(`${BED_OFFSET_COMMENT} ${formatBedOffset(offset)}`);
   }
 
   lines.push(';========================================', '');
@@ -30,41 +109,118 @@ function createPrintSeparator(
   return lines.join('\n');
 }
 
+function describeCalibrateOnce(files: GCodeFile[]): string[] {
+  const lines = [';', '; Calibrate once: prints after the first skip'];
+
+  for (const file of files) {
+    const { removed } = trimStartCalibration(file.gcode);
+    const steps =
+      removed.length > 0
+        ? removed.map((step) => CALIBRATION_STEP_LABELS[step]).join(', ')
+        : 'nothing recognised';
+    lines.push(`;   ${file.displayName}: ${steps}`);
+  }
+
+  return lines;
+}
+
 function createCombinedHeader(
   files: GCodeFile[],
-  totalPrints: number,
+  jobs: PrintJob[],
+  options: CombineOptions,
   totalTime: string | null,
+  part: BatchPart | null,
+  maintenance: Map<number, MaintenanceBlock[]>,
 ): string {
   const lines: string[] = [
     ';========================================',
-    ';===== COMBINED PRINT FILE =====',
+    COMBINED_FILE_TITLE,
     ';========================================',
     ';',
     `; Generated by G-code Combiner`,
     `; Date: ${new Date().toISOString()}`,
     ';',
-    `; Total prints in this file: ${totalPrints}`,
+    `; Total prints in this file: ${jobs.length}`,
   ];
 
+  if (part && part.totalParts > 1) {
+    lines.push(
+      `; Part ${part.partNumber} of ${part.totalParts}: prints ${part.firstPrintNumber}-${part.lastPrintNumber} of ${part.totalPrints} in the whole job`,
+    );
+  }
+
+  if (options.resume && part?.firstPrintNumber === options.resume.fromPrint) {
+    lines.push(
+      `; Resumed from print ${options.resume.fromPrint} of ${part.totalPrints}`,
+    );
+  }
+
   if (totalTime) {
     lines.push(`; Estimated total time: ${totalTime}`);
   }
 
+  if (options.ejectionMacro) {
+    const { name, id, version } = options.ejectionMacro;
+    lines.push(`; Ejection macro: ${name} (${id} v${version})`);
+  }
+
+  if (options.bedOffset.pattern !== 'off') {
+    lines.push(
+      `; Bed offsets: ${BED_OFFSET_PATTERN_LABELS[options.bedOffset.pattern]}, ${options.bedOffset.stepMm} mm steps`,
+    );
+  }
+
+  if (options.calibrateOnce) {
+    lines.push(...describeCalibrateOnce(files));
+  }
+
+  const remappedFiles = files.filter(hasRemappedSlots);
+  if (remappedFiles.length > 0) {
+    lines.push(';', '; AMS slot mapping:');
+    for (const file of remappedFiles) {
+      const mapping = file.filaments
+        .map(
+          (filament) =>
+            `${formatSlot(filament.id)}→${formatSlot(getFilamentSlot(file, filament.id))}`,
+        )
+        .join(', ');
+      lines.push(`;   ${file.displayName}: ${mapping}`);
+    }
+  }
+
+  const overriddenFiles = files.filter((file) => hasOverrides(file.overrides));
+  if (overriddenFiles.length > 0) {
+    lines.push(';', '; Print overrides:');
+    for (const file of overriddenFiles) {
+      lines.push(
+        `;   ${file.displayName}: ${describeOverrides(file.overrides).join(', ')}`,
+      );
+    }
+  }
+
+  if (options.filamentChange !== 'off') {
+    const changes = findFilamentChanges(files).size;
+    lines.push(
+      `; Filament changes: ${changes} (${FILAMENT_CHANGE_MODE_LABELS[options.filamentChange]})`,
+    );
+  }
+
+  if (options.maintenance.length > 0) {
+    lines.push(';', '; Maintenance:');
+    for (const rule of options.maintenance) {
+      lines.push(`;   ${describeMaintenanceRule(rule)}`);
+    }
+  }
+
   lines.push(';', '; Print order:');
 
-  let printIndex = 1;
-  for (const file of files) {
-    if (file.copies > 1) {
-      for (let copy = 1; copy <= file.copies; copy++) {
-        lines.push(
-          `;   ${printIndex}. ${file.fileName} (Copy ${copy}/${file.copies})`,
-        );
-        printIndex++;
-      }
-    } else {
-      lines.push(`;   ${printIndex}. ${file.fileName}`);
-      printIndex++;
+  for (const job of jobs) {
+    for (const block of maintenance.get(job.printNumber) ?? []) {
+      lines.push(`;      + ${block.name}`);
     }
+    lines.push(
+      `;   ${job.printNumber}. ${getPrintLabel(job, job.file.displayName)}`,
+    );
   }
 
   lines.push(';', ';========================================', '', '');
@@ -72,92 +228,314 @@ function createCombinedHeader(
   return lines.join('\n');
 }
 
-export function combineGCode(files: GCodeFile[]): string {
-  // Calculate total number of prints (accounting for copies)
-  const totalPrints = files.reduce((sum, file) => sum + file.copies, 0);
+interface EncodedPlate {
+  /** Plate bytes between M73 commands, shared by every copy. */
+  segments: Uint8Array<ArrayBuffer>[];
+  commands: string[];
+  byteLength: number;
+}
+
+function encodePlate(gcode: string): EncodedPlate {
+  const { segments, commands } = splitAtProgressCommands(gcode);
+  const encoded = segments.map((segment) => encoder.encode(segment));
+
+  return {
+    segments: encoded,
+    commands,
+    byteLength: encoded.reduce((sum, segment) => sum + segment.length, 0),
+  };
+}
+
+/**
+ * The maintenance schedule for one combined file, counted over the whole
+ * job, as a resumed or split file only holds some of its prints.
+ */
+function scheduleFileMaintenance(
+  jobs: PrintJob[],
+  options: CombineOptions,
+  part: BatchPart | null,
+): Map<number, MaintenanceBlock[]> {
+  return scheduleJobMaintenance(part?.wholeJob ?? jobs, options.maintenance);
+}
+
+/**
+ * Streams the combined G-code to `write` print by print. Each plate is
+ * encoded once and its bytes are written again for every copy; only the
+ * separators and M73 progress commands are generated per print, so memory
+ * use doesn't grow with the number of copies. `part` says where the file
+ * sits when the batch is split into several.
+ */
+export async function writeCombinedGCode(
+  files: GCodeFile[],
+  options: CombineOptions,
+  write: ZipEntryWriter,
+  onProgress?: ProgressCallback,
+  part: BatchPart | null = null,
+): Promise<void> {
+  // A part keeps the print numbers of the whole job, so a resumed or split
+  // file's separators match the original batch
+  const jobs = part?.jobs ?? expandPrintSequence(files);
+  const totalPrints = part?.totalPrints ?? jobs.length;
 
-  if (totalPrints === 0) {
+  if (jobs.length === 0) {
     throw new Error('No files to combine');
   }
 
-  const totalTime = calculateTotalTime(files);
-  const combinedParts: string[] = [];
+  const maintenance = scheduleFileMaintenance(jobs, options, part);
+  const totalTime = calculateTotalTime(
+    files,
+    getMaintenanceSeconds(getScheduledBlocks(maintenance, jobs)),
+  );
+  const timeline = createProgressTimeline(
+    jobs,
+    jobs.map((job) =>
+      getMaintenanceSeconds(maintenance.get(job.printNumber) ?? []),
+    ),
+  );
+  const totalLength = jobs.reduce((sum, job) => sum + job.file.gcode.length, 0);
+  let writtenLength = 0;
 
   // Add header with print information
-  combinedParts.push(createCombinedHeader(files, totalPrints, totalTime));
+  await write(
+    encoder.encode(
+      createCombinedHeader(files, jobs, options, totalTime, part, maintenance),
+    ),
+  );
 
-  let currentPrint = 1;
+  // Bed offsets rotate over every print of a plate in the whole job
+  const earlierPrints = countEarlierPrints(part?.wholeJob ?? jobs);
+  const offsets = jobs.map((job) =>
+    getBedOffset(
+      job.file,
+      earlierPrints.get(job.printNumber) ?? 0,
+      options.bedOffset,
+    ),
+  );
+  let plate: EncodedPlate | null = null;
+  let plateKey = '';
 
-  for (const file of files) {
-    for (let copy = 1; copy <= file.copies; copy++) {
-      // Add separator before each print
-      const separator =
-        file.copies > 1
-          ? createPrintSeparator(
-              currentPrint,
-              totalPrints,
-              file.fileName,
-              copy,
-              file.copies,
-            )
-          : createPrintSeparator(currentPrint, totalPrints, file.fileName);
-
-      combinedParts.push(separator);
-      combinedParts.push(file.gcode);
-
-      // Ensure there's a newline at the end of each G-code section
-      if (!file.gcode.endsWith('\n')) {
-        combinedParts.push('\n');
+  for (const [index, job] of jobs.entries()) {
+    const { file } = job;
+
+    // Only the very first print runs the full start-up calibration
+    const trimCalibration = options.calibrateOnce && index > 0;
+    const offset = offsets[index];
+    const key = `${file.id}:${trimCalibration}:${offset.x}:${offset.y}`;
+    if (plate === null || key !== plateKey) {
+      plate = encodePlate(
+        remapToolCommands(
+          applyPrintOverrides(
+            offsetPlate(
+              trimCalibration
+                ? trimStartCalibration(file.gcode).gcode
+                : file.gcode,
+              offset,
+            ),
+            file.overrides,
+          ),
+          file,
+        ),
+      );
+      plateKey = key;
+    }
+
+    // Add separator before each print
+    // The copy number only shows for plates printed more than once
+    const separator = createPrintSeparator(
+      job.printNumber,
+      totalPrints,
+      file.displayName,
+      job.copy,
+      file.copies,
+      offset,
+    );
+    await write(encoder.encode(separator));
+
+    const prelude = renderPrintPrelude(
+      jobs,
+      index,
+      options,
+      maintenance,
+      offsets,
+    );
+    if (prelude) {
+      await write(encoder.encode(prelude));
+    }
+
+    let writtenBytes = 0;
+    for (const [segmentIndex, segment] of plate.segments.entries()) {
+      await write(segment);
+      writtenBytes += segment.length;
+
+      // Progress and remaining time count across the whole batch
+      if (segmentIndex < plate.commands.length) {
+        await write(
+          encoder.encode(
+            rewriteProgressCommand(
+              plate.commands[segmentIndex],
+              timeline[index],
+            ),
+          ),
+        );
       }
 
-      currentPrint++;
+      onProgress?.(
+        (writtenLength +
+          (file.gcode.length * writtenBytes) / Math.max(1, plate.byteLength)) /
+          totalLength,
+      );
+    }
+
+    // Ensure there's a newline at the end of each G-code section
+    if (!file.gcode.endsWith('\n')) {
+      await write(encoder.encode('\n'));
     }
-  }
 
-  return combinedParts.join('');
+    writtenLength += file.gcode.length;
+  }
 }
 
+/**
+ * Builds the combined .gcode.3mf. The combined G-code is streamed straight
+ * into the archive and never exists as one string; `onProgress` follows it
+ * from 0 to 1.
+ */
 export async function createCombinedZip(
   files: GCodeFile[],
-  combinedGCode: string,
+  options: CombineOptions,
+  onProgress?: ProgressCallback,
+  part: BatchPart | null = null,
 ): Promise<Blob> {
-  // Use the first file as a template
-  const templateFile = files[0];
-  const templateZip = await JSZip.loadAsync(templateFile.originalZip);
+  // Use the first uploaded archive as a template. Plain G-code uploads have
+  // none, so if that's all there is the package is built from scratch.
+  const templateFile = files.find((file) => file.originalZip !== null);
+  const templateZip = templateFile?.originalZip
+    ? await JSZip.loadAsync(templateFile.originalZip)
+    : null;
+  const templatePlate = templateFile?.plateNumber ?? 1;
+  const batchName =
+    part && part.totalParts > 1
+      ? `${createBatchName(files)} (part ${part.partNumber} of ${part.totalParts})`
+      : createBatchName(files);
+  const jobs = part?.jobs ?? expandPrintSequence(files);
+  const maintenance = scheduleFileMaintenance(jobs, options, part);
 
   // Create a new ZIP with the same structure
-  const newZip = new JSZip();
+  const newZip = new ZipWriter();
 
   // Copy all files from the template except the G-code
-  const allFiles = Object.keys(templateZip.files);
+  const allFiles = templateZip ? Object.values(templateZip.files) : [];
 
-  for (const filePath of allFiles) {
-    const file = templateZip.files[filePath];
+  for (const file of allFiles) {
+    const filePath = file.name;
 
     if (file.dir) {
-      newZip.folder(filePath);
+      newZip.addDirectory(filePath);
       continue;
     }
 
-    // Skip the original G-code file - we'll add our combined version
+    // Skip the original G-code files and their checksums - we'll add our
+    // combined version with a fresh checksum
     if (filePath.includes('.gcode')) {
       continue;
     }
 
+    // The print metadata is rewritten below to describe the whole batch
+    if (filePath === SLICE_INFO_PATH || filePath === MODEL_SETTINGS_PATH) {
+      continue;
+    }
+
+    // Keep the template plate's thumbnails as plate 1, drop other plates'
+    const targetPath = mapPlateAsset(filePath, templatePlate);
+    if (targetPath === null) {
+      continue;
+    }
+
     // Copy other files as-is
-    const content = await file.async('arraybuffer');
-    newZip.file(filePath, content);
+    await newZip.addFile(targetPath, await file.async('uint8array'));
+  }
+
+  const templateSliceInfo =
+    (await templateZip?.file(SLICE_INFO_PATH)?.async('string')) ?? null;
+  await newZip.addFile(
+    SLICE_INFO_PATH,
+    createSliceInfo(
+      files,
+      jobs,
+      templateSliceInfo,
+      templatePlate,
+      batchName,
+      getMaintenanceSeconds(getScheduledBlocks(maintenance, jobs)),
+    ),
+  );
+
+  const templateModelSettings = await templateZip
+    ?.file(MODEL_SETTINGS_PATH)
+    ?.async('string');
+  if (templateModelSettings) {
+    await newZip.addFile(
+      MODEL_SETTINGS_PATH,
+      rewriteModelSettings(templateModelSettings, templatePlate, batchName),
+    );
   }
 
-  // Add the combined G-code
-  newZip.file('Metadata/plate_1.gcode', combinedGCode);
+  // Show the whole batch on the printer screen instead of the first model.
+  // Without a template there's no thumbnail yet, so a single one will do.
+  const minimumTiles = templateZip ? 2 : 1;
+  const [contactSheet, smallContactSheet] = await Promise.all([
+    createContactSheet(files, THUMBNAIL_SIZE, minimumTiles),
+    createContactSheet(files, SMALL_THUMBNAIL_SIZE, minimumTiles),
+  ]);
+  const hasThumbnail = contactSheet !== null && smallContactSheet !== null;
+  if (hasThumbnail) {
+    await newZip.addFile('Metadata/plate_1.png', contactSheet);
+    await newZip.addFile('Metadata/plate_1_small.png', smallContactSheet);
+  }
+
+  if (!templateZip) {
+    for (const [filePath, content] of Object.entries(
+      createPackageFiles(COMBINED_GCODE_PATH, hasThumbnail),
+    )) {
+      await newZip.addFile(filePath, content);
+    }
+  }
+
+  // Add the combined G-code and the checksum the printer firmware verifies
+  const checksum = new Md5();
+  await newZip.addStream(COMBINED_GCODE_PATH, (write) =>
+    writeCombinedGCode(
+      files,
+      options,
+      (chunk) => {
+        checksum.update(chunk);
+        return write(chunk);
+      },
+      onProgress,
+      part,
+    ),
+  );
+  await newZip.addFile(getChecksumPath(COMBINED_GCODE_PATH), checksum.digest());
 
-  // Generate the ZIP file
-  return newZip.generateAsync({
-    type: 'blob',
-    compression: 'DEFLATE',
-    compressionOptions: { level: 6 },
-  });
+  return newZip.finish();
+}
+
+export function getPartFileName(part: BatchPart): string {
+  return `part_${part.partNumber}_of_${part.totalParts}_prints_${part.firstPrintNumber}-${part.lastPrintNumber}.gcode.3mf`;
+}
+
+/**
+ * Packs the .gcode.3mf of every part into one ZIP, so a split batch still
+ * downloads as a single file.
+ */
+export async function createPartsArchive(
+  parts: BatchPart[],
+  blobs: Blob[],
+): Promise<Blob> {
+  const archive = new ZipWriter();
+  for (const [index, part] of parts.entries()) {
+    await archive.addFile(getPartFileName(part), blobs[index]);
+  }
+  return archive.finish();
 }
 
 export function downloadBlob(blob: Blob, filename: string): void {
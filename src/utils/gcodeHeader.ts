@@ -0,0 +1,184 @@
+import type { GCodeMetadata } from '../types';
+
+const HEADER_BLOCK_START = '; HEADER_BLOCK_START';
+const HEADER_BLOCK_END = '; HEADER_BLOCK_END';
+const CONFIG_BLOCK_START = '; CONFIG_BLOCK_START';
+const CONFIG_BLOCK_END = '; CONFIG_BLOCK_END';
+
+// Time formats used by slicers that don't write a Bambu header block:
+// ; estimated printing time (normal mode) = 1h 23m 45s
+// ; total estimated time: 1234
+// ;TIME:1234 (seconds)
+const FALLBACK_TIME_PATTERNS = [
+  /;\s*estimated printing time.*?=\s*(.+?)(?:\n|$)/i,
+  /;\s*TIME[_:]?\s*(\d+)/i,
+  /;\s*total estimated time[:\s]*(.+?)(?:\n|$)/i,
+];
+
+function extractBlock(
+  gcode: string,
+  startMarker: string,
+  endMarker: string,
+): string | null {
+  const start = gcode.indexOf(startMarker);
+  if (start === -1) return null;
+
+  const end = gcode.indexOf(endMarker, start);
+  if (end === -1) return null;
+
+  return gcode.slice(start + startMarker.length, end);
+}
+
+/**
+ * Parses durations like "1d 2h 3m 4s", "32m 2s" or a bare number of seconds.
+ */
+export function parseDuration(value: string): number | null {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number.parseFloat(trimmed));
+  }
+
+  const units: Record<string, number> = { d: 86400, h: 3600, m: 60, s: 1 };
+  const pattern = /(\d+(?:\.\d+)?)\s*([dhms])/gi;
+  let total = 0;
+  let matched = false;
+
+  for (const match of trimmed.matchAll(pattern)) {
+    total += Number.parseFloat(match[1]) * units[match[2].toLowerCase()];
+    matched = true;
+  }
+
+  return matched ? Math.round(total) : null;
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function parseNumberList(value: string | undefined): number[] {
+  if (value === undefined) return [];
+  return value
+    .split(/[,;]/)
+    .map((part) => Number.parseFloat(part))
+    .filter((part) => Number.isFinite(part));
+}
+
+/**
+ * Reads the "; key: value" pairs of the header block. A single line can hold
+ * several pairs, e.g. "; model printing time: 32m 2s; total estimated time: 38m 18s".
+ * Units in brackets are dropped from the key ("total filament weight [g]").
+ */
+function parseHeaderEntries(block: string): {
+  entries: Map<string, string>;
+  slicer: string | null;
+} {
+  const entries = new Map<string, string>();
+  let slicer: string | null = null;
+
+  for (const rawLine of block.split('\n')) {
+    const line = rawLine.replace(/^\s*;\s*/, '').trim();
+    if (!line) continue;
+
+    if (!line.includes(':')) {
+      slicer ??= line;
+      continue;
+    }
+
+    for (const pair of line.split(/;\s*/)) {
+      const separator = pair.indexOf(':');
+      if (separator === -1) continue;
+
+      const key = pair
+        .slice(0, separator)
+        .replace(/\[.*?\]/g, '')
+        .trim()
+        .toLowerCase();
+      entries.set(key, pair.slice(separator + 1).trim());
+    }
+  }
+
+  return { entries, slicer };
+}
+
+/**
+ * Reads a "; key = value" setting. Bambu Studio writes these in the config
+ * block; other slicers append them to the end of the file.
+ */
+export function readConfigValue(gcode: string, key: string): string | null {
+  const scope =
+    extractBlock(gcode, CONFIG_BLOCK_START, CONFIG_BLOCK_END) ?? gcode;
+  const match = scope.match(new RegExp(`^;\\s*${key}\\s*=\\s*(.*)$`, 'm'));
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Returns the largest PNG preview embedded in the G-code's thumbnail block
+ * ("; thumbnail begin 300x300 12345" ... "; thumbnail end") as a data URL.
+ */
+export function extractEmbeddedThumbnail(gcode: string): string | null {
+  const pattern =
+    /^;\s*thumbnail begin (\d+)x(\d+)[^\n]*\n([\s\S]*?)^;\s*thumbnail end/gm;
+  let best: { area: number; data: string } | null = null;
+
+  for (const match of gcode.matchAll(pattern)) {
+    const area = Number.parseInt(match[1], 10) * Number.parseInt(match[2], 10);
+    if (best === null || area > best.area) {
+      best = { area, data: match[3].replace(/^;\s?|\s+/gm, '') };
+    }
+  }
+
+  return best ? `data:image/png;base64,${best.data}` : null;
+}
+
+function parseFallbackTime(gcode: string): number | null {
+  for (const pattern of FALLBACK_TIME_PATTERNS) {
+    const match = gcode.match(pattern);
+    if (match) {
+      const seconds = parseDuration(match[1]);
+      if (seconds !== null) return seconds;
+    }
+  }
+
+  return null;
+}
+
+export function parseGCodeHeader(gcode: string): GCodeMetadata {
+  const headerBlock = extractBlock(gcode, HEADER_BLOCK_START, HEADER_BLOCK_END);
+  const { entries, slicer } = headerBlock
+    ? parseHeaderEntries(headerBlock)
+    : { entries: new Map<string, string>(), slicer: null };
+
+  const modelPrintTime = entries.get('model printing time');
+  const totalEstimatedTime = entries.get('total estimated time');
+  const nozzleDiameter = readConfigValue(gcode, 'nozzle_diameter');
+
+  return {
+    slicer,
+    modelPrintSeconds: modelPrintTime ? parseDuration(modelPrintTime) : null,
+    totalEstimatedSeconds: totalEstimatedTime
+      ? parseDuration(totalEstimatedTime)
+      : parseFallbackTime(gcode),
+    totalLayers: parseNumber(entries.get('total layer number')),
+    maxZHeight: parseNumber(entries.get('max_z_height')),
+    filamentLengthMm: parseNumberList(entries.get('total filament length')),
+    filamentWeightG: parseNumberList(entries.get('total filament weight')),
+    nozzleDiameter: nozzleDiameter
+      ? (parseNumberList(nozzleDiameter)[0] ?? null)
+      : null,
+    printerModel: readConfigValue(gcode, 'printer_model') || null,
+  };
+}
+
+/**
+ * The time one copy of a plate occupies the printer, including the start and
+ * end sequences when the slicer reported them.
+ */
+export function getPrintSeconds(metadata: GCodeMetadata): number | null {
+  return metadata.totalEstimatedSeconds ?? metadata.modelPrintSeconds;
+}
+
+export function getFilamentWeight(metadata: GCodeMetadata): number {
+  return metadata.filamentWeightG.reduce((sum, grams) => sum + grams, 0);
+}
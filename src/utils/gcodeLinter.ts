@@ -0,0 +1,523 @@
+import type {
+  BedOffset,
+  CombineOptions,
+  ExtrusionMode,
+  GCodeFile,
+  LintFinding,
+  LintRule,
+  LintSeverity,
+  PlateScan,
+  ToolpathBounds,
+} from '../types';
+import { formatBedOffset, isZeroOffset } from './bedOffset';
+import {
+  EJECTION_MACRO_START,
+  getEjectionClearance,
+  getPushStart,
+} from './ejectionMacros';
+import { FILAMENT_CHANGE_START } from './filamentChange';
+import {
+  CONDITIONAL_BLOCK_END,
+  CONDITIONAL_BLOCK_START,
+  findSections,
+  parseCommand,
+  resolveAxis,
+  TOOL_CHANGE_END,
+  TOOL_CHANGE_START,
+} from './gcodeSections';
+import { MAINTENANCE_START } from './maintenance';
+import { findPrinter } from './printers';
+import { getPrintPlans } from './printPlan';
+import { getPrintLabel } from './printSequence';
+
+export const LINT_RULE_LABELS: Record<LintRule, string> = {
+  endGCode: 'End sequence',
+  heaters: 'Heaters',
+  buildVolume: 'Build volume',
+  ejectionClearance: 'Ejection clearance',
+  extrusionMode: 'Extrusion mode',
+  pause: 'Pause',
+};
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = {
+  error: 0,
+  warning: 1,
+  info: 2,
+};
+
+// Slicers round coordinates, so a skirt drawn right at the edge of the bed
+// can land a hair past it.
+const BUILD_VOLUME_TOLERANCE_MM = 0.5;
+
+// Commands that stop the printer until someone resumes it. Bambu firmware
+// pauses on M400 U1; the rest are the common Marlin and Klipper spellings.
+const PAUSE_COMMANDS = new Set(['M0', 'M1', 'M25', 'M226', 'M601']);
+
+function isPause(command: string, params: Map<string, number>): boolean {
+  return PAUSE_COMMANDS.has(command) || (command === 'M400' && params.has('U'));
+}
+
+function extendRange(
+  range: [number, number] | null,
+  value: number | undefined,
+): [number, number] | null {
+  if (value === undefined) return range;
+  return range
+    ? [Math.min(range[0], value), Math.max(range[1], value)]
+    : [value, value];
+}
+
+/**
+ * Reads what the pre-flight checks need from a plate in one pass: which
+ * heaters and extrusion mode it leaves behind, how far its extrusions and
+ * moves reach and whether it ends on a pause. Moves in the start and end
+ * G-code (purge lines, wipes, parking) are left out of the bounds, since
+ * printers park and purge outside the bed on purpose.
+ */
+export function scanPlate(gcode: string): PlateScan {
+  const sections = findSections(gcode);
+  const bodyStart = sections.startEnd ?? 0;
+  const bodyEnd = sections.endStart ?? gcode.length;
+
+  let hotend = 0;
+  let bed = 0;
+  let extrusionMode: ExtrusionMode | null = null;
+  let setsExtrusionModeFirst = false;
+  let extruded = false;
+  let bounds: PlateScan['extrusionBounds'] = null;
+  let movesX: [number, number] | null = null;
+  let movesY: [number, number] | null = null;
+  let inToolChange = false;
+  let inConditional = false;
+  let maxZ: number | null = null;
+  let pausedInEnd = false;
+  let lastWasPause = false;
+
+  let absolute = true;
+  let x: number | null = null;
+  let y: number | null = null;
+  let z: number | null = null;
+  let e = 0;
+
+  let offset = 0;
+  for (const line of gcode.split('\n')) {
+    const lineStart = offset;
+    offset += line.length + 1;
+
+    const parsed = parseCommand(line);
+    if (!parsed) continue;
+    const { command, params } = parsed;
+    lastWasPause = false;
+
+    switch (command) {
+      case 'G90':
+        absolute = true;
+        break;
+      case 'G91':
+        absolute = false;
+        break;
+      case TOOL_CHANGE_START:
+        inToolChange = true;
+        break;
+      case TOOL_CHANGE_END:
+        inToolChange = false;
+        break;
+      case CONDITIONAL_BLOCK_START:
+        inConditional = true;
+        break;
+      case CONDITIONAL_BLOCK_END:
+        inConditional = false;
+        break;
+      case 'M82':
+      case 'M83':
+        extrusionMode = command === 'M82' ? 'absolute' : 'relative';
+        if (!extruded) setsExtrusionModeFirst = true;
+        break;
+      case 'G28':
+        x = y = z = null;
+        break;
+      case 'G92':
+        x = params.get('X') ?? x;
+        y = params.get('Y') ?? y;
+        z = params.get('Z') ?? z;
+        e = params.get('E') ?? e;
+        break;
+      case 'M104':
+      case 'M109':
+        hotend = params.get('S') ?? params.get('R') ?? hotend;
+        break;
+      case 'M140':
+      case 'M190':
+        bed = params.get('S') ?? params.get('R') ?? bed;
+        break;
+      case 'G0':
+      case 'G1':
+      case 'G2':
+      case 'G3': {
+        const nextX = resolveAxis(x, params.get('X'), absolute);
+        const nextY = resolveAxis(y, params.get('Y'), absolute);
+        const nextZ = resolveAxis(z, params.get('Z'), absolute);
+
+        const eWord = params.get('E');
+        let extruding = false;
+        if (eWord !== undefined) {
+          extruding = extrusionMode === 'relative' ? eWord > 0 : eWord > e;
+          e = extrusionMode === 'relative' ? e + eWord : eWord;
+        }
+        if (extruding) extruded = true;
+
+        const inBody = lineStart >= bodyStart && lineStart < bodyEnd;
+        if (inBody && absolute && !inToolChange && !inConditional) {
+          movesX = extendRange(movesX, params.get('X'));
+          movesY = extendRange(movesY, params.get('Y'));
+        }
+        if (extruding && inBody) {
+          for (const [pointX, pointY] of [
+            [x, y],
+            [nextX, nextY],
+          ]) {
+            if (pointX === null || pointY === null) continue;
+            bounds = bounds
+              ? {
+                  minX: Math.min(bounds.minX, pointX),
+                  maxX: Math.max(bounds.maxX, pointX),
+                  minY: Math.min(bounds.minY, pointY),
+                  maxY: Math.max(bounds.maxY, pointY),
+                }
+              : { minX: pointX, maxX: pointX, minY: pointY, maxY: pointY };
+          }
+        }
+        if (nextZ !== null && (maxZ === null || nextZ > maxZ)) {
+          maxZ = nextZ;
+        }
+
+        x = nextX;
+        y = nextY;
+        z = nextZ;
+        break;
+      }
+      default:
+        if (isPause(command, params)) {
+          lastWasPause = true;
+          if (sections.endStart !== null && lineStart >= sections.endStart) {
+            pausedInEnd = true;
+          }
+        }
+    }
+  }
+
+  return {
+    hasEndGCode: sections.endStart !== null,
+    hotendOnAtEnd: hotend > 0,
+    bedOnAtEnd: bed > 0,
+    extrusionModeAtEnd: extrusionMode,
+    setsExtrusionModeFirst,
+    extrusionBounds: bounds,
+    moveBounds:
+      movesX && movesY
+        ? { minX: movesX[0], maxX: movesX[1], minY: movesY[0], maxY: movesY[1] }
+        : null,
+    maxZ,
+    endsPaused: pausedInEnd || lastWasPause,
+  };
+}
+
+/** What the printer is left with as the combined file runs. */
+interface PrinterState {
+  hotendOn: boolean;
+  bedOn: boolean;
+  extrusionMode: ExtrusionMode;
+  /** Whatever last set the heaters or the extrusion mode, for messages. */
+  heatersSetBy: string;
+  modeSetBy: string;
+}
+
+// Firmware starts in absolute mode, which is what a plate that never picks
+// one was sliced for
+const INITIAL_STATE: PrinterState = {
+  hotendOn: false,
+  bedOn: false,
+  extrusionMode: 'absolute',
+  heatersSetBy: 'The printer',
+  modeSetBy: 'The printer',
+};
+
+function describeHeaters(state: PrinterState): string {
+  return [state.hotendOn && 'hotend', state.bedOn && 'bed']
+    .filter(Boolean)
+    .join(' and ');
+}
+
+function runPlate(state: PrinterState, file: GCodeFile): PrinterState {
+  const { scan } = file;
+  return {
+    hotendOn: scan.hotendOnAtEnd,
+    bedOn: scan.bedOnAtEnd,
+    extrusionMode: scan.extrusionModeAtEnd ?? state.extrusionMode,
+    heatersSetBy: file.displayName,
+    modeSetBy: scan.extrusionModeAtEnd ? file.displayName : state.modeSetBy,
+  };
+}
+
+/** Follows the heaters and extrusion mode through the injected blocks. */
+function runPrelude(
+  state: PrinterState,
+  prelude: string,
+  options: CombineOptions,
+): PrinterState {
+  const next = { ...state };
+  let block = 'An injected block';
+
+  for (const line of prelude.split('\n')) {
+    if (line.startsWith(EJECTION_MACRO_START)) {
+      block = options.ejectionMacro?.name ?? 'The ejection macro';
+    } else if (line.startsWith(MAINTENANCE_START)) {
+      block = line.slice(line.indexOf(': ') + 2);
+    } else if (line.startsWith(FILAMENT_CHANGE_START)) {
+      block = 'The filament change';
+    }
+
+    const parsed = parseCommand(line);
+    if (!parsed) continue;
+    const { command, params } = parsed;
+    // An R target only waits for the temperature, like the ejection macros'
+    // wait for the bed to cool down, so it doesn't count as heating
+    const target = params.get('S');
+
+    if (command === 'M82' || command === 'M83') {
+      next.extrusionMode = command === 'M82' ? 'absolute' : 'relative';
+      next.modeSetBy = block;
+    } else if (
+      target !== undefined &&
+      (command === 'M104' || command === 'M109')
+    ) {
+      next.hotendOn = target > 0;
+      next.heatersSetBy = block;
+    } else if (
+      target !== undefined &&
+      (command === 'M140' || command === 'M190')
+    ) {
+      next.bedOn = target > 0;
+      next.heatersSetBy = block;
+    }
+  }
+
+  return next;
+}
+
+function lintPlate(file: GCodeFile): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const { scan } = file;
+  const name = file.displayName;
+
+  if (!scan.hasEndGCode) {
+    findings.push({
+      rule: 'endGCode',
+      severity: 'warning',
+      message: `${name} has no end G-code, so nothing parks the nozzle or cools down after it.`,
+      fileId: file.id,
+    });
+  }
+
+  if (scan.endsPaused) {
+    findings.push({
+      rule: 'pause',
+      severity: 'warning',
+      message: `${name} pauses at the end, so the batch waits for someone to resume it after this print.`,
+      fileId: file.id,
+    });
+  }
+
+  const printer = file.profile.printerModel
+    ? findPrinter(file.profile.printerModel)
+    : null;
+  if (!printer) return findings;
+
+  const height = printer.buildVolume[2];
+  const tallest = Math.max(file.metadata.maxZHeight ?? 0, scan.maxZ ?? 0);
+  if (tallest > height + BUILD_VOLUME_TOLERANCE_MM) {
+    findings.push({
+      rule: 'buildVolume',
+      severity: 'error',
+      message: `${name} goes up to ${tallest} mm, above the ${height} mm the ${printer.name} can reach.`,
+      fileId: file.id,
+    });
+  }
+
+  return findings;
+}
+
+function isOffBed(
+  bounds: ToolpathBounds | null,
+  offset: BedOffset,
+  width: number,
+  depth: number,
+): boolean {
+  return (
+    bounds !== null &&
+    (bounds.minX + offset.x < -BUILD_VOLUME_TOLERANCE_MM ||
+      bounds.minY + offset.y < -BUILD_VOLUME_TOLERANCE_MM ||
+      bounds.maxX + offset.x > width + BUILD_VOLUME_TOLERANCE_MM ||
+      bounds.maxY + offset.y > depth + BUILD_VOLUME_TOLERANCE_MM)
+  );
+}
+
+/** Checks a plate's moves against the bed, where this print puts them. */
+function lintPlacement(file: GCodeFile, offset: BedOffset): LintFinding[] {
+  const printer = file.profile.printerModel
+    ? findPrinter(file.profile.printerModel)
+    : null;
+  if (!printer) return [];
+
+  const [width, depth] = printer.buildVolume;
+  const name = isZeroOffset(offset)
+    ? file.displayName
+    : `${file.displayName}, moved ${formatBedOffset(offset)},`;
+
+  if (isOffBed(file.scan.extrusionBounds, offset, width, depth)) {
+    return [
+      {
+        rule: 'buildVolume',
+        severity: 'error',
+        message: `${name} prints outside the ${width} × ${depth} mm bed of the ${printer.name}.`,
+        fileId: file.id,
+      },
+    ];
+  }
+  if (isOffBed(file.scan.moveBounds, offset, width, depth)) {
+    return [
+      {
+        rule: 'buildVolume',
+        severity: 'warning',
+        message: `${name} travels outside the ${width} × ${depth} mm bed of the ${printer.name}.`,
+        fileId: file.id,
+      },
+    ];
+  }
+  return [];
+}
+
+/**
+ * Runs the pre-flight checks over the prints the combined files will
+ * contain, as the combiner plans them: each plate once, each plate again
+ * wherever a bed offset moves it, and the printer's heaters and extrusion
+ * mode followed through every plate and injected block in order. Findings
+ * come back with errors first.
+ */
+export function lintBatch(
+  files: GCodeFile[],
+  options: CombineOptions,
+): LintFinding[] {
+  const plans = getPrintPlans(files, options);
+  const macro = options.ejectionMacro;
+  const findings: LintFinding[] = [];
+  const checked = new Set<string>();
+  let state = INITIAL_STATE;
+
+  for (const [index, plan] of plans.entries()) {
+    const { job, previous, prelude, offset } = plan;
+    const { file } = job;
+    const next = plans[index + 1];
+
+    if (!checked.has(file.id)) {
+      checked.add(file.id);
+      findings.push(...lintPlate(file));
+    }
+
+    const placement = `${file.id}@${offset.x},${offset.y}`;
+    if (!checked.has(placement)) {
+      checked.add(placement);
+      findings.push(...lintPlacement(file, offset));
+    }
+
+    // Each combined file starts on a freshly started printer
+    if (!previous) state = INITIAL_STATE;
+
+    // The prelude clears the previous part, or the failed one on resuming
+    const ejected = previous
+      ? previous.file
+      : prelude.includes(EJECTION_MACRO_START)
+        ? file
+        : null;
+    const ejectedOffset = previous ? plans[index - 1].offset : offset;
+    const pushed = `push:${ejected?.id}@${ejectedOffset.x},${ejectedOffset.y}`;
+    if (macro && ejected && !checked.has(pushed)) {
+      checked.add(pushed);
+      if (!getPushStart(macro, ejected, ejectedOffset).fits) {
+        findings.push({
+          rule: 'ejectionClearance',
+          severity: 'error',
+          message: `${ejected.displayName} reaches too far back for ${macro.name} to get behind it, so the nozzle would come down on the part.`,
+          fileId: ejected.id,
+        });
+      }
+    }
+    if (macro && ejected && !checked.has(`clearance:${ejected.id}`)) {
+      checked.add(`clearance:${ejected.id}`);
+      const clearance = getEjectionClearance(macro, ejected);
+      if (!clearance.fits) {
+        findings.push({
+          rule: 'ejectionClearance',
+          severity: 'error',
+          message: `${ejected.displayName} is too tall for ${macro.name} to travel over, which tops out at ${macro.maxZ} mm.`,
+          fileId: ejected.id,
+        });
+      } else if (!clearance.knownHeight) {
+        findings.push({
+          rule: 'ejectionClearance',
+          severity: 'warning',
+          message: `${ejected.displayName} doesn't say how tall it is, so ${macro.name} travels over it at ${macro.maxZ} mm. Check that the part is lower than that.`,
+          fileId: ejected.id,
+        });
+      }
+    }
+
+    state = runPrelude(state, prelude, options);
+
+    const heaters = describeHeaters(state);
+    if (previous && heaters && !checked.has(`heaters:${state.heatersSetBy}`)) {
+      checked.add(`heaters:${state.heatersSetBy}`);
+      findings.push({
+        rule: 'heaters',
+        severity: 'warning',
+        message: state.bedOn
+          ? `${state.heatersSetBy} keeps the ${heaters} on between prints, so the part may not cool enough to come off.`
+          : `${state.heatersSetBy} keeps the hotend on between prints, so it oozes while the next print starts.`,
+        fileId: previous.file.id,
+      });
+    }
+
+    const boundary = `${state.modeSetBy}>${file.id}`;
+    if (
+      state.extrusionMode === 'relative' &&
+      !file.scan.setsExtrusionModeFirst &&
+      !checked.has(boundary)
+    ) {
+      checked.add(boundary);
+      findings.push({
+        rule: 'extrusionMode',
+        severity: 'error',
+        message: `${state.modeSetBy} leaves the printer in relative extrusion, but ${file.displayName} expects absolute and never switches.`,
+        fileId: file.id,
+      });
+    }
+
+    state = runPlate(state, file);
+
+    if (!next?.previous) {
+      const leftOn = describeHeaters(state);
+      if (leftOn) {
+        findings.push({
+          rule: 'heaters',
+          severity: 'error',
+          message: `The last print${next ? ' of its file' : ''}, ${getPrintLabel(job, file.displayName)}, leaves the ${leftOn} on after ${next ? 'the file' : 'the batch'} finishes.`,
+          fileId: file.id,
+        });
+      }
+    }
+  }
+
+  return findings.sort(
+    (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity],
+  );
+}
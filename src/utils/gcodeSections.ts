@@ -0,0 +1,135 @@
+// Markers that end the machine start G-code, in order of preference. Bambu
+// Studio and OrcaSlicer write the MACHINE_* tags; the layer markers are the
+// fallback for other slicers.
+const START_GCODE_END_MARKERS = [
+  '; MACHINE_START_GCODE_END',
+  '; CHANGE_LAYER',
+  ';LAYER_CHANGE',
+  ';LAYER:0',
+];
+
+// Markers that begin the machine end G-code. The last occurrence is used.
+const END_GCODE_START_MARKERS = [
+  '; MACHINE_END_GCODE_START',
+  '; filament end gcode',
+  ';TYPE:Custom',
+];
+
+const EXECUTABLE_BLOCK_START = '; EXECUTABLE_BLOCK_START';
+
+// Bambu Studio wraps tool changes in M620/M621; the moves in between go to
+// the purge chute and wiper, which are fixed to the printer, not the plate.
+export const TOOL_CHANGE_START = 'M620';
+export const TOOL_CHANGE_END = 'M621';
+
+// It wraps G-code that only runs under a condition in M622/M623, like the
+// timelapse move that parks the toolhead off the bed; also fixed to the
+// printer.
+export const CONDITIONAL_BLOCK_START = 'M622';
+export const CONDITIONAL_BLOCK_END = 'M623';
+
+export interface GCodeSections {
+  /** Offset where the start G-code ends, or null when no marker was found. */
+  startEnd: number | null;
+  /** Offset where the end G-code begins, or null when no marker was found. */
+  endStart: number | null;
+}
+
+export function findSections(gcode: string): GCodeSections {
+  let startEnd: number | null = null;
+  for (const marker of START_GCODE_END_MARKERS) {
+    const index = gcode.indexOf(marker);
+    if (index !== -1) {
+      startEnd = index;
+      break;
+    }
+  }
+
+  let endStart: number | null = null;
+  for (const marker of END_GCODE_START_MARKERS) {
+    const index = gcode.lastIndexOf(marker);
+    if (index !== -1 && (startEnd === null || index > startEnd)) {
+      endStart = index;
+      break;
+    }
+  }
+
+  return { startEnd, endStart };
+}
+
+/**
+ * Where the start G-code sits in the file, skipping the header, thumbnail
+ * and config blocks that Bambu Studio writes ahead of the executable block.
+ */
+export function getStartGCodeRange(
+  gcode: string,
+  sections: GCodeSections,
+): { from: number; to: number } | null {
+  if (sections.startEnd === null) return null;
+
+  const executableStart = gcode.indexOf(EXECUTABLE_BLOCK_START);
+  const from =
+    executableStart !== -1 && executableStart < sections.startEnd
+      ? executableStart
+      : 0;
+  return { from, to: sections.startEnd };
+}
+
+export function getStartGCode(gcode: string, sections: GCodeSections): string {
+  const range = getStartGCodeRange(gcode, sections);
+  return range ? gcode.slice(range.from, range.to) : '';
+}
+
+export function getEndGCode(gcode: string, sections: GCodeSections): string {
+  return sections.endStart === null ? '' : gcode.slice(sections.endStart);
+}
+
+/**
+ * Splits a G-code line into its command and parameters, ignoring comments.
+ * Returns null for blank and comment-only lines.
+ */
+export function parseCommand(
+  line: string,
+): { command: string; params: Map<string, number> } | null {
+  const commentStart = line.indexOf(';');
+  const code = (
+    commentStart === -1 ? line : line.slice(0, commentStart)
+  ).trim();
+  if (!code) return null;
+
+  const [command, ...words] = code.split(/\s+/);
+  const params = new Map<string, number>();
+
+  for (const word of words) {
+    const value = Number.parseFloat(word.slice(1));
+    if (Number.isFinite(value)) {
+      params.set(word[0].toUpperCase(), value);
+    }
+  }
+
+  return { command: command.toUpperCase(), params };
+}
+
+/**
+ * Applies an axis word to a tracked position. Relative moves from an unknown
+ * position (e.g. right after homing) leave the position unknown.
+ */
+export function resolveAxis(
+  current: number | null,
+  value: number | undefined,
+  absolute: boolean,
+): number | null {
+  if (value === undefined) return current;
+  if (absolute) return value;
+  return current === null ? null : current + value;
+}
+
+/**
+ * Adds `delta` to a number as written in G-code, keeping its decimals so
+ * shifting back by `-delta` restores the original text.
+ */
+export function shiftNumber(text: string, delta: number): string {
+  if (delta === 0) return text;
+  const decimals = text.split('.')[1]?.length ?? 0;
+  return (Number.parseFloat(text) + delta).toFixed(decimals);
+}
@@ -0,0 +1,199 @@
+import type {
+  GCodeFile,
+  JobManifest,
+  JobManifestItem,
+  JobSettings,
+  MaintenanceRule,
+} from '../types';
+import { NO_SPLIT_LIMITS } from './batchSplit';
+import { BED_OFFSET_PATTERN_LABELS, NO_BED_OFFSET } from './bedOffset';
+import { findEjectionMacro, getEjectionMacroKey } from './ejectionMacros';
+import { FILAMENT_CHANGE_MODE_LABELS } from './filamentChange';
+import { MAINTENANCE_TRIGGER_LABELS } from './maintenance';
+import { NO_OVERRIDES } from './printOverrides';
+import { createBatchName } from './printSequence';
+
+export const JOB_MANIFEST_VERSION = 1;
+
+export class JobManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobManifestError';
+  }
+}
+
+/**
+ * Identifies an upload well enough to find it again in local storage
+ * without hashing the whole archive.
+ */
+export function getUploadKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+export function createJobId(): string {
+  return `job-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export function createJobManifest(
+  id: string,
+  files: GCodeFile[],
+  settings: JobSettings,
+): JobManifest {
+  return {
+    version: JOB_MANIFEST_VERSION,
+    id,
+    name: createBatchName(files),
+    savedAt: new Date().toISOString(),
+    items: files.map((file) => ({
+      sourceFile: file.sourceFile,
+      sourceKey: file.sourceKey,
+      plateNumber: file.plateNumber,
+      plateIndex: file.plateIndex,
+      displayName: file.displayName,
+      copies: file.copies,
+      filamentSlots: file.filamentSlots,
+      overrides: file.overrides,
+    })),
+    options: {
+      ...settings,
+      ejectionMacro: settings.ejectionMacro
+        ? getEjectionMacroKey(settings.ejectionMacro)
+        : null,
+    },
+  };
+}
+
+function isManifestItem(value: unknown): value is JobManifestItem {
+  if (typeof value !== 'object' || value === null) return false;
+  const item = value as Record<string, unknown>;
+
+  return (
+    typeof item.sourceFile === 'string' &&
+    typeof item.sourceKey === 'string' &&
+    typeof item.plateIndex === 'number' &&
+    typeof item.displayName === 'string' &&
+    typeof item.copies === 'number' &&
+    typeof item.filamentSlots === 'object' &&
+    item.filamentSlots !== null
+  );
+}
+
+function isMaintenanceRule(value: unknown): value is MaintenanceRule {
+  if (typeof value !== 'object' || value === null) return false;
+  const rule = value as Record<string, unknown>;
+  const block = rule.block as Record<string, unknown> | null | undefined;
+
+  return (
+    typeof rule.id === 'string' &&
+    typeof rule.trigger === 'string' &&
+    rule.trigger in MAINTENANCE_TRIGGER_LABELS &&
+    typeof rule.every === 'number' &&
+    typeof block === 'object' &&
+    block !== null &&
+    typeof block.id === 'string' &&
+    typeof block.name === 'string' &&
+    typeof block.gcode === 'string' &&
+    typeof block.minutes === 'number'
+  );
+}
+
+/**
+ * Reads an exported job. Options missing from the file fall back to their
+ * defaults; a manifest from a newer version or without usable items is
+ * rejected.
+ */
+export function parseJobManifest(text: string): JobManifest {
+  let data: Partial<JobManifest>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new JobManifestError("This job file isn't valid JSON.");
+  }
+
+  if (data.version !== JOB_MANIFEST_VERSION) {
+    throw new JobManifestError(
+      "This job file was saved by a different version of G-code Combiner and can't be opened.",
+    );
+  }
+  if (!Array.isArray(data.items) || !data.items.every(isManifestItem)) {
+    throw new JobManifestError("This job file doesn't list any plates.");
+  }
+
+  const options: Partial<JobManifest['options']> = data.options ?? {};
+  const filamentChange =
+    options.filamentChange &&
+    options.filamentChange in FILAMENT_CHANGE_MODE_LABELS
+      ? options.filamentChange
+      : 'pause';
+  const bedOffset =
+    options.bedOffset && options.bedOffset.pattern in BED_OFFSET_PATTERN_LABELS
+      ? { ...NO_BED_OFFSET, ...options.bedOffset }
+      : NO_BED_OFFSET;
+
+  return {
+    version: JOB_MANIFEST_VERSION,
+    id: typeof data.id === 'string' ? data.id : createJobId(),
+    name: typeof data.name === 'string' ? data.name : 'Saved job',
+    savedAt:
+      typeof data.savedAt === 'string'
+        ? data.savedAt
+        : new Date().toISOString(),
+    items: data.items,
+    options: {
+      ejectionMacro: options.ejectionMacro ?? null,
+      calibrateOnce: options.calibrateOnce === true,
+      filamentChange,
+      split: { ...NO_SPLIT_LIMITS, ...options.split },
+      resume: {
+        fromPrint: options.resume?.fromPrint ?? 1,
+        clearBed: options.resume?.clearBed ?? true,
+      },
+      bedOffset,
+      maintenance: Array.isArray(options.maintenance)
+        ? options.maintenance.filter(isMaintenanceRule)
+        : [],
+      batchStart: options.batchStart ?? '',
+    },
+  };
+}
+
+export function getJobSettings(manifest: JobManifest): JobSettings {
+  const { options } = manifest;
+  return {
+    ...options,
+    ejectionMacro: options.ejectionMacro
+      ? findEjectionMacro(options.ejectionMacro)
+      : null,
+  };
+}
+
+/**
+ * Rebuilds the batch from freshly processed uploads, keyed by `sourceKey`.
+ * Plates whose upload is gone are listed in `missing` by file name.
+ */
+export function restoreJobFiles(
+  manifest: JobManifest,
+  uploads: Map<string, GCodeFile[]>,
+): { files: GCodeFile[]; missing: string[] } {
+  const files: GCodeFile[] = [];
+  const missing = new Set<string>();
+
+  for (const [index, item] of manifest.items.entries()) {
+    const plate = uploads.get(item.sourceKey)?.[item.plateIndex];
+    if (!plate) {
+      missing.add(item.sourceFile);
+      continue;
+    }
+
+    files.push({
+      ...plate,
+      // The same plate can appear more than once, e.g. after optimizing
+      id: `${plate.id}-${index}`,
+      copies: item.copies,
+      filamentSlots: item.filamentSlots,
+      overrides: { ...NO_OVERRIDES, ...item.overrides },
+    });
+  }
+
+  return { files, missing: Array.from(missing) };
+}
@@ -0,0 +1,182 @@
+import type { JobManifest, MaintenanceBlock } from '../types';
+
+const DB_NAME = 'gcode-combiner';
+const DB_VERSION = 2;
+const UPLOADS_STORE = 'uploads';
+const JOBS_STORE = 'jobs';
+const MAINTENANCE_STORE = 'maintenance';
+
+const STORE_KEYS: [string, string][] = [
+  [UPLOADS_STORE, 'key'],
+  [JOBS_STORE, 'id'],
+  [MAINTENANCE_STORE, 'id'],
+];
+
+/** Older jobs, and uploads only they use, are dropped past this many. */
+const MAX_RECENT_JOBS = 10;
+
+interface StoredUpload {
+  key: string;
+  file: File;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+// Uploads stored in this session that no saved job refers to yet. The batch
+// is only autosaved a moment after its files are added, so these are kept
+// until then instead of being collected as unused.
+const pendingUploadKeys = new Set<string>();
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (database) return database;
+
+  database = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    // Stores added in later versions are created when an older database
+    // is opened
+    request.onupgradeneeded = () => {
+      for (const [name, keyPath] of STORE_KEYS) {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name, { keyPath });
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Let a later call try again, e.g. after the user allows storage
+  database.catch(() => {
+    database = null;
+  });
+
+  return database;
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function whenComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function storeUpload(key: string, file: File): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(UPLOADS_STORE, 'readwrite');
+  transaction
+    .objectStore(UPLOADS_STORE)
+    .put({ key, file } satisfies StoredUpload);
+  await whenComplete(transaction);
+  pendingUploadKeys.add(key);
+}
+
+export async function loadUpload(key: string): Promise<File | null> {
+  const db = await openDatabase();
+  const upload: StoredUpload | undefined = await toPromise(
+    db.transaction(UPLOADS_STORE).objectStore(UPLOADS_STORE).get(key),
+  );
+  return upload?.file ?? null;
+}
+
+export async function listRecentJobs(): Promise<JobManifest[]> {
+  const db = await openDatabase();
+  const jobs: JobManifest[] = await toPromise(
+    db.transaction(JOBS_STORE).objectStore(JOBS_STORE).getAll(),
+  );
+  return jobs.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+/**
+ * Deletes the uploads no saved job refers to, so storage doesn't grow with
+ * each batch. That covers files removed from a batch as well as those of
+ * dropped jobs.
+ */
+async function removeUnusedUploads(): Promise<void> {
+  const usedKeys = new Set(
+    (await listRecentJobs()).flatMap((job) =>
+      job.items.map((item) => item.sourceKey),
+    ),
+  );
+
+  const db = await openDatabase();
+  const keys = await toPromise(
+    db.transaction(UPLOADS_STORE).objectStore(UPLOADS_STORE).getAllKeys(),
+  );
+  const unusedKeys = keys.filter(
+    (key) =>
+      typeof key === 'string' &&
+      !usedKeys.has(key) &&
+      !pendingUploadKeys.has(key),
+  );
+  if (unusedKeys.length === 0) return;
+
+  const transaction = db.transaction(UPLOADS_STORE, 'readwrite');
+  for (const key of unusedKeys) {
+    transaction.objectStore(UPLOADS_STORE).delete(key);
+  }
+  await whenComplete(transaction);
+}
+
+async function removeJobs(jobs: JobManifest[]): Promise<void> {
+  if (jobs.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(JOBS_STORE, 'readwrite');
+  for (const job of jobs) {
+    transaction.objectStore(JOBS_STORE).delete(job.id);
+  }
+  await whenComplete(transaction);
+}
+
+export async function saveJob(manifest: JobManifest): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(JOBS_STORE, 'readwrite');
+  transaction.objectStore(JOBS_STORE).put(manifest);
+  await whenComplete(transaction);
+  for (const item of manifest.items) {
+    pendingUploadKeys.delete(item.sourceKey);
+  }
+
+  await removeJobs((await listRecentJobs()).slice(MAX_RECENT_JOBS));
+  await removeUnusedUploads();
+}
+
+export async function deleteJob(id: string): Promise<void> {
+  const job = (await listRecentJobs()).find((saved) => saved.id === id);
+  if (job) {
+    await removeJobs([job]);
+    await removeUnusedUploads();
+  }
+}
+
+/** The maintenance blocks added to the library in this browser. */
+export async function listMaintenanceBlocks(): Promise<MaintenanceBlock[]> {
+  const db = await openDatabase();
+  const blocks: MaintenanceBlock[] = await toPromise(
+    db.transaction(MAINTENANCE_STORE).objectStore(MAINTENANCE_STORE).getAll(),
+  );
+  return blocks.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveMaintenanceBlock(
+  block: MaintenanceBlock,
+): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(MAINTENANCE_STORE, 'readwrite');
+  transaction.objectStore(MAINTENANCE_STORE).put(block);
+  await whenComplete(transaction);
+}
+
+export async function deleteMaintenanceBlock(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(MAINTENANCE_STORE, 'readwrite');
+  transaction.objectStore(MAINTENANCE_STORE).delete(id);
+  await whenComplete(transaction);
+}
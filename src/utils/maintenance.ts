@@ -0,0 +1,185 @@
+import type {
+  GCodeFile,
+  MaintenanceBlock,
+  MaintenanceRule,
+  MaintenanceTrigger,
+} from '../types';
+import { getPrintSeconds } from './gcodeHeader';
+import { expandPrintSequence, type PrintJob } from './printSequence';
+
+export const MAINTENANCE_START = '; MAINTENANCE_START';
+export const MAINTENANCE_END = '; MAINTENANCE_END';
+
+// The start marker carries the block's minutes, so a re-imported file can
+// take them back out of the progress timeline
+const MAINTENANCE_MINUTES_PATTERN = new RegExp(
+  `^${MAINTENANCE_START} (\\d+(?:\\.\\d+)?) min: `,
+  'gm',
+);
+
+export const MAINTENANCE_TRIGGER_LABELS: Record<MaintenanceTrigger, string> = {
+  prints: 'prints',
+  hours: 'hours of printing',
+};
+
+/**
+ * Blocks that ship with the app. Like the ejection macros they never change
+ * once released; to adjust one, copy it into the library and edit the copy.
+ * They run after the previous part has been ejected, so the bed is clear.
+ */
+export const MAINTENANCE_BLOCKS: MaintenanceBlock[] = [
+  {
+    id: 'relevel',
+    name: 'Re-level the bed',
+    minutes: 5,
+    gcode: ['G90', 'G28 ; home all axes', 'G29 ; probe the whole bed'].join(
+      '\n',
+    ),
+  },
+  {
+    id: 'nozzle-check',
+    name: 'Pause for a nozzle check',
+    minutes: 5,
+    gcode: [
+      'M400',
+      'M117 Check and clean the nozzle',
+      'M400 U1 ; pause until resumed',
+    ].join('\n'),
+  },
+  {
+    id: 'p1-purge-wipe',
+    name: 'Purge and wipe (P1 and X1 series)',
+    minutes: 3,
+    gcode: [
+      'M109 S220 ; PLA; raise for hotter filaments',
+      'G91',
+      'G1 Z10 F1200',
+      'G90',
+      'G1 X60 F12000',
+      'G1 Y245',
+      'G1 Y265 F3000 ; over the purge chute',
+      'G1 X-48.2 F3000',
+      'M83',
+      'G1 E30 F300 ; purge',
+      'G1 E-1 F1800',
+      'M400',
+      'G1 X-28.5 F30000 ; wipe and shake',
+      'G1 X-48.2 F3000',
+      'G1 X-28.5 F30000',
+      'G1 X-48.2 F3000',
+      'M104 S0',
+      'G28 ; re-home before the next print',
+    ].join('\n'),
+  },
+];
+
+export function isBuiltInBlock(block: MaintenanceBlock): boolean {
+  return MAINTENANCE_BLOCKS.some((builtIn) => builtIn.id === block.id);
+}
+
+export function createMaintenanceId(): string {
+  return `maintenance-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export function describeMaintenanceRule(rule: MaintenanceRule): string {
+  const unit =
+    rule.every === 1
+      ? rule.trigger === 'prints'
+        ? 'print'
+        : 'hour of printing'
+      : `${rule.every} ${MAINTENANCE_TRIGGER_LABELS[rule.trigger]}`;
+  return `${rule.block.name} every ${unit}`;
+}
+
+export function renderMaintenanceBlock(block: MaintenanceBlock): string {
+  return [
+    `${MAINTENANCE_START} ${block.minutes} min: ${block.name.replace(/\n/g, ' ')}`,
+    block.gcode.trimEnd(),
+    MAINTENANCE_END,
+    '',
+  ].join('\n');
+}
+
+function isDue(
+  rule: MaintenanceRule,
+  printsDone: number,
+  secondsBefore: number,
+  secondsDone: number,
+): boolean {
+  if (!(rule.every > 0)) return false;
+  if (rule.trigger === 'prints') return printsDone % rule.every === 0;
+
+  const interval = rule.every * 3600;
+  return (
+    Math.floor(secondsDone / interval) > Math.floor(secondsBefore / interval)
+  );
+}
+
+/**
+ * Works out which blocks run before each print of a job, keyed by print
+ * number. `jobs` must be the whole job, so a resumed or split batch counts
+ * the same way as the full one. Counting starts with the first print, never
+ * before it, and hours count the slicer's print time only; prints without an
+ * estimate don't move the clock. A block due from two rules at once runs
+ * once.
+ */
+export function scheduleJobMaintenance(
+  jobs: PrintJob[],
+  rules: MaintenanceRule[],
+): Map<number, MaintenanceBlock[]> {
+  const schedule = new Map<number, MaintenanceBlock[]>();
+  if (rules.length === 0) return schedule;
+
+  let secondsDone = 0;
+
+  for (const [index, job] of jobs.entries()) {
+    if (index === 0) continue;
+
+    const secondsBefore = secondsDone;
+    secondsDone += getPrintSeconds(jobs[index - 1].file.metadata) ?? 0;
+
+    const blocks: MaintenanceBlock[] = [];
+    for (const rule of rules) {
+      if (
+        isDue(rule, index, secondsBefore, secondsDone) &&
+        !blocks.some((block) => block.id === rule.block.id)
+      ) {
+        blocks.push(rule.block);
+      }
+    }
+    if (blocks.length > 0) {
+      schedule.set(job.printNumber, blocks);
+    }
+  }
+
+  return schedule;
+}
+
+/** The maintenance schedule of a batch's full file list. */
+export function scheduleMaintenance(
+  files: GCodeFile[],
+  rules: MaintenanceRule[],
+): Map<number, MaintenanceBlock[]> {
+  return scheduleJobMaintenance(expandPrintSequence(files), rules);
+}
+
+/** The blocks a set of prints runs first, in print order. */
+export function getScheduledBlocks(
+  schedule: Map<number, MaintenanceBlock[]>,
+  jobs: PrintJob[],
+): MaintenanceBlock[] {
+  return jobs.flatMap((job) => schedule.get(job.printNumber) ?? []);
+}
+
+export function getMaintenanceSeconds(blocks: MaintenanceBlock[]): number {
+  return blocks.reduce((sum, block) => sum + block.minutes * 60, 0);
+}
+
+/** How long the maintenance blocks in a combined file's print take. */
+export function readMaintenanceSeconds(gcode: string): number {
+  let seconds = 0;
+  for (const match of gcode.matchAll(MAINTENANCE_MINUTES_PATTERN)) {
+    seconds += Number.parseFloat(match[1]) * 60;
+  }
+  return seconds;
+}
@@ -0,0 +1,131 @@
+// Per-round shift amounts and sine-derived constants from RFC 1321.
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5,
+  9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11,
+  16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15,
+  21,
+];
+
+const CONSTANTS = Array.from(
+  { length: 64 },
+  (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) | 0,
+);
+
+// Strings are encoded in slices so hashing a large G-code string never needs
+// a second full-size copy of it in memory.
+const STRING_SLICE_LENGTH = 1 << 20;
+
+/**
+ * Incremental MD5, used for the `.gcode.md5` sidecar files Bambu printers
+ * check before starting a print. Feed it chunks with `update` and read the
+ * checksum once with `digest`.
+ */
+export class Md5 {
+  private state = new Int32Array([
+    0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476,
+  ]);
+  private block = new Uint8Array(64);
+  private blockView = new DataView(this.block.buffer);
+  private blockLength = 0;
+  private totalLength = 0;
+  private encoder = new TextEncoder();
+
+  update(data: Uint8Array | string): this {
+    if (typeof data === 'string') {
+      for (let start = 0; start < data.length; ) {
+        let end = Math.min(start + STRING_SLICE_LENGTH, data.length);
+        // Don't split a surrogate pair across two slices
+        const lastCode = data.charCodeAt(end - 1);
+        if (end < data.length && lastCode >= 0xd800 && lastCode <= 0xdbff) {
+          end--;
+        }
+        this.updateBytes(this.encoder.encode(data.slice(start, end)));
+        start = end;
+      }
+      return this;
+    }
+
+    this.updateBytes(data);
+    return this;
+  }
+
+  digest(): string {
+    const bitLength = this.totalLength * 8;
+
+    this.updateBytes(new Uint8Array([0x80]));
+    while (this.blockLength !== 56) {
+      this.updateBytes(new Uint8Array([0]));
+    }
+    this.blockView.setUint32(56, bitLength >>> 0, true);
+    this.blockView.setUint32(60, Math.floor(bitLength / 2 ** 32), true);
+    this.processBlock();
+
+    let hex = '';
+    for (const word of this.state) {
+      for (let shift = 0; shift < 32; shift += 8) {
+        hex += ((word >>> shift) & 0xff).toString(16).padStart(2, '0');
+      }
+    }
+    return hex.toUpperCase();
+  }
+
+  private updateBytes(bytes: Uint8Array): void {
+    this.totalLength += bytes.length;
+    let offset = 0;
+
+    while (offset < bytes.length) {
+      const count = Math.min(64 - this.blockLength, bytes.length - offset);
+      this.block.set(bytes.subarray(offset, offset + count), this.blockLength);
+      this.blockLength += count;
+      offset += count;
+
+      if (this.blockLength === 64) {
+        this.processBlock();
+      }
+    }
+  }
+
+  private processBlock(): void {
+    const words = new Int32Array(16);
+    for (let i = 0; i < 16; i++) {
+      words[i] = this.blockView.getInt32(i * 4, true);
+    }
+
+    let [a, b, c, d] = this.state;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      const sum = (a + f + CONSTANTS[i] + words[g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << SHIFTS[i]) | (sum >>> (32 - SHIFTS[i])))) | 0;
+    }
+
+    this.state[0] += a;
+    this.state[1] += b;
+    this.state[2] += c;
+    this.state[3] += d;
+    this.blockLength = 0;
+  }
+}
+
+export function md5(data: Uint8Array | string): string {
+  return new Md5().update(data).digest();
+}
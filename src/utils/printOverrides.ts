@@ -0,0 +1,226 @@
+import type { PrintOverrides } from '../types';
+import { findSections, parseCommand, shiftNumber } from './gcodeSections';
+
+export const NO_OVERRIDES: PrintOverrides = {
+  speedPercent: null,
+  flowPercent: null,
+  nozzleTempOffset: 0,
+  bedTempOffset: 0,
+};
+
+/** Bambu Lab's speed levels, as M220 percentages. */
+export const SPEED_PROFILES: { label: string; percent: number }[] = [
+  { label: 'Silent', percent: 50 },
+  { label: 'Standard', percent: 100 },
+  { label: 'Sport', percent: 124 },
+  { label: 'Ludicrous', percent: 166 },
+];
+
+export const MAX_TEMP_OFFSET = 30;
+
+export const PRINT_OVERRIDES_START = '; PRINT_OVERRIDES_START';
+export const PRINT_OVERRIDES_RESTORE = '; PRINT_OVERRIDES_RESTORE';
+export const PRINT_OVERRIDES_END = '; PRINT_OVERRIDES_END';
+
+const OVERRIDES_BLOCK_PATTERN = new RegExp(
+  `^${PRINT_OVERRIDES_START}(.*)\\n[\\s\\S]*?^${PRINT_OVERRIDES_END}\\n`,
+  'm',
+);
+const RESTORE_BLOCK_PATTERN = new RegExp(
+  `^${PRINT_OVERRIDES_RESTORE}\\n[\\s\\S]*?^${PRINT_OVERRIDES_END}\\n`,
+  'm',
+);
+const TEMPERATURE_PATTERN = /(\s)([SR])(\d+(?:\.\d+)?)(?=\s|$)/g;
+
+const NOZZLE_COMMANDS = new Set(['M104', 'M109']);
+const BED_COMMANDS = new Set(['M140', 'M190']);
+
+export function hasOverrides(overrides: PrintOverrides): boolean {
+  return (
+    overrides.speedPercent !== null ||
+    overrides.flowPercent !== null ||
+    overrides.nozzleTempOffset !== 0 ||
+    overrides.bedTempOffset !== 0
+  );
+}
+
+export function isSameOverrides(a: PrintOverrides, b: PrintOverrides): boolean {
+  return (
+    a.speedPercent === b.speedPercent &&
+    a.flowPercent === b.flowPercent &&
+    a.nozzleTempOffset === b.nozzleTempOffset &&
+    a.bedTempOffset === b.bedTempOffset
+  );
+}
+
+function formatTempOffset(offset: number): string {
+  return `${offset > 0 ? '+' : ''}${offset} °C`;
+}
+
+export function describeOverrides(overrides: PrintOverrides): string[] {
+  const parts: string[] = [];
+  if (overrides.speedPercent !== null) {
+    parts.push(`Speed ${overrides.speedPercent}%`);
+  }
+  if (overrides.flowPercent !== null) {
+    parts.push(`Flow ${overrides.flowPercent}%`);
+  }
+  if (overrides.nozzleTempOffset !== 0) {
+    parts.push(`Nozzle ${formatTempOffset(overrides.nozzleTempOffset)}`);
+  }
+  if (overrides.bedTempOffset !== 0) {
+    parts.push(`Bed ${formatTempOffset(overrides.bedTempOffset)}`);
+  }
+  return parts;
+}
+
+/**
+ * Adds the offsets to every heater target the plate sets before its end
+ * G-code. Targets of 0 (heater off) are left alone, and so is the end G-code,
+ * where cooldown waits for part release live.
+ */
+function shiftTemperatures(
+  gcode: string,
+  nozzleOffset: number,
+  bedOffset: number,
+): string {
+  if (nozzleOffset === 0 && bedOffset === 0) return gcode;
+
+  const end = findSections(gcode).endStart ?? gcode.length;
+  const lines = gcode.slice(0, end).split('\n');
+
+  for (const [index, line] of lines.entries()) {
+    const parsed = parseCommand(line);
+    if (!parsed) continue;
+
+    const offset = NOZZLE_COMMANDS.has(parsed.command)
+      ? nozzleOffset
+      : BED_COMMANDS.has(parsed.command)
+        ? bedOffset
+        : 0;
+    if (offset === 0) continue;
+
+    const commentStart = line.indexOf(';');
+    const code = commentStart === -1 ? line : line.slice(0, commentStart);
+    lines[index] =
+      code.replace(
+        TEMPERATURE_PATTERN,
+        (word, space: string, letter: string, value: string) => {
+          const target = Number.parseFloat(value);
+          return target > 0 && target + offset > 0
+            ? `${space}${letter}${shiftNumber(value, offset)}`
+            : word;
+        },
+      ) + line.slice(code.length);
+  }
+
+  return lines.join('\n') + gcode.slice(end);
+}
+
+function formatBlockParams(overrides: PrintOverrides): string {
+  return [
+    overrides.speedPercent !== null && `speed=${overrides.speedPercent}`,
+    overrides.flowPercent !== null && `flow=${overrides.flowPercent}`,
+    overrides.nozzleTempOffset !== 0 && `nozzle=${overrides.nozzleTempOffset}`,
+    overrides.bedTempOffset !== 0 && `bed=${overrides.bedTempOffset}`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+function parseBlockParams(text: string): PrintOverrides {
+  const params = new Map(
+    text
+      .trim()
+      .split(/\s+/)
+      .map((pair) => pair.split('=') as [string, string]),
+  );
+  const read = (name: string) => {
+    const value = Number.parseFloat(params.get(name) ?? '');
+    return Number.isFinite(value) ? value : null;
+  };
+
+  return {
+    speedPercent: read('speed'),
+    flowPercent: read('flow'),
+    nozzleTempOffset: read('nozzle') ?? 0,
+    bedTempOffset: read('bed') ?? 0,
+  };
+}
+
+/**
+ * Applies a plate's overrides for the combined file: heater targets are
+ * shifted, speed and flow are set once the start G-code is done, and both
+ * go back to 100% after the plate so the next print runs as sliced. The
+ * injected block records the overrides so they can be taken out again.
+ */
+export function applyPrintOverrides(
+  gcode: string,
+  overrides: PrintOverrides,
+): string {
+  if (!hasOverrides(overrides)) return gcode;
+
+  const shifted = shiftTemperatures(
+    gcode,
+    overrides.nozzleTempOffset,
+    overrides.bedTempOffset,
+  );
+  const changesRate =
+    overrides.speedPercent !== null || overrides.flowPercent !== null;
+
+  const block = [
+    `${PRINT_OVERRIDES_START} ${formatBlockParams(overrides)}`,
+    overrides.speedPercent !== null && `M220 S${overrides.speedPercent}`,
+    overrides.flowPercent !== null && `M221 S${overrides.flowPercent}`,
+    PRINT_OVERRIDES_END,
+    '',
+  ]
+    .filter((line) => line !== false)
+    .join('\n');
+  const restore = changesRate
+    ? [
+        PRINT_OVERRIDES_RESTORE,
+        overrides.speedPercent !== null && 'M220 S100',
+        overrides.flowPercent !== null && 'M221 S100',
+        PRINT_OVERRIDES_END,
+        '',
+      ]
+        .filter((line) => line !== false)
+        .join('\n')
+    : '';
+
+  const insertAt = findSections(shifted).startEnd ?? 0;
+  return (
+    shifted.slice(0, insertAt) +
+    block +
+    shifted.slice(insertAt) +
+    (shifted.endsWith('\n') || !restore ? '' : '\n') +
+    restore
+  );
+}
+
+/**
+ * Takes the overrides back out of a print from a combined file, returning
+ * the plate as it was sliced and the overrides that were applied.
+ */
+export function removePrintOverrides(gcode: string): {
+  gcode: string;
+  overrides: PrintOverrides;
+} {
+  const match = gcode.match(OVERRIDES_BLOCK_PATTERN);
+  if (!match) return { gcode, overrides: NO_OVERRIDES };
+
+  const overrides = parseBlockParams(match[1]);
+  const stripped = gcode
+    .replace(OVERRIDES_BLOCK_PATTERN, '')
+    .replace(RESTORE_BLOCK_PATTERN, '');
+
+  return {
+    gcode: shiftTemperatures(
+      stripped,
+      -overrides.nozzleTempOffset,
+      -overrides.bedTempOffset,
+    ),
+    overrides,
+  };
+}
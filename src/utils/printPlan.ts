@@ -0,0 +1,163 @@
+import type {
+  BedOffset,
+  CombineOptions,
+  GCodeFile,
+  MaintenanceBlock,
+} from '../types';
+import { splitBatch } from './batchSplit';
+import { countEarlierPrints, getBedOffset } from './bedOffset';
+import { EJECTION_MACRO_START, renderEjectionMacro } from './ejectionMacros';
+import { findFilamentChange, renderFilamentChange } from './filamentChange';
+import { getPrintSeconds } from './gcodeHeader';
+import {
+  readMaintenanceSeconds,
+  renderMaintenanceBlock,
+  scheduleMaintenance,
+} from './maintenance';
+import { expandPrintSequence, type PrintJob } from './printSequence';
+import { EJECTION_SECONDS } from './timeline';
+
+export interface PrintPlan {
+  job: PrintJob;
+  /** The print before it in the same combined file, if any. */
+  previous: PrintJob | null;
+  /** Injected G-code the printer runs before the plate's own. */
+  prelude: string;
+  /** Whether the plate runs without its start-up calibration. */
+  trimCalibration: boolean;
+  offset: BedOffset;
+}
+
+/**
+ * The blocks the combiner runs between a print's separator and its own
+ * G-code: ejection of whatever is on the bed, any maintenance that's due,
+ * then a filament swap. `offsets` holds where each of `jobs` prints, so the
+ * ejection knows where the part on the bed sits.
+ */
+export function renderPrintPrelude(
+  jobs: PrintJob[],
+  index: number,
+  options: CombineOptions,
+  maintenance: Map<number, MaintenanceBlock[]>,
+  offsets: BedOffset[],
+): string {
+  const { file, printNumber } = jobs[index];
+  const blocks: string[] = [];
+
+  // A resumed batch may start with the failed part still on the bed
+  if (
+    options.ejectionMacro &&
+    index === 0 &&
+    options.resume?.clearBed &&
+    printNumber === options.resume.fromPrint
+  ) {
+    blocks.push(
+      renderEjectionMacro(options.ejectionMacro, file, offsets[index]),
+    );
+  }
+
+  // Clear the previous print's part before this one starts
+  if (options.ejectionMacro && index > 0) {
+    blocks.push(
+      renderEjectionMacro(
+        options.ejectionMacro,
+        jobs[index - 1].file,
+        offsets[index - 1],
+      ),
+    );
+  }
+
+  for (const block of maintenance.get(printNumber) ?? []) {
+    blocks.push(renderMaintenanceBlock(block));
+  }
+
+  // Stop for a filament swap once the bed is clear
+  if (options.filamentChange !== 'off' && index > 0) {
+    const change = findFilamentChange(
+      jobs.slice(0, index).map((job) => job.file),
+      file,
+    );
+    if (change) {
+      blocks.push(renderFilamentChange(change, options.filamentChange));
+    }
+  }
+
+  return blocks.join('');
+}
+
+/**
+ * Works out what the combined files run for every print they contain, in
+ * print order, taking resuming and splitting into account.
+ */
+export function getPrintPlans(
+  files: GCodeFile[],
+  options: CombineOptions,
+): PrintPlan[] {
+  const fromPrint = options.resume?.fromPrint ?? 1;
+  const maintenance = scheduleMaintenance(files, options.maintenance);
+  // Bed offsets rotate over every print of a plate in the whole job
+  const earlierPrints = countEarlierPrints(expandPrintSequence(files));
+
+  return splitBatch(files, options.split, fromPrint).flatMap((part) => {
+    const offsets = part.jobs.map((job) =>
+      getBedOffset(
+        job.file,
+        earlierPrints.get(job.printNumber) ?? 0,
+        options.bedOffset,
+      ),
+    );
+
+    return part.jobs.map((job, index) => ({
+      job,
+      previous: index > 0 ? part.jobs[index - 1] : null,
+      prelude: renderPrintPrelude(
+        part.jobs,
+        index,
+        options,
+        maintenance,
+        offsets,
+      ),
+      // Only the first print of each file runs the full calibration
+      trimCalibration: options.calibrateOnce && index > 0,
+      offset: offsets[index],
+    }));
+  });
+}
+
+/**
+ * The plan for print `printNumber` of the whole job, or null for prints the
+ * combined file leaves out.
+ */
+export function getPrintPlan(
+  files: GCodeFile[],
+  options: CombineOptions,
+  printNumber: number,
+): PrintPlan | null {
+  return (
+    getPrintPlans(files, options).find(
+      (plan) => plan.job.printNumber === printNumber,
+    ) ?? null
+  );
+}
+
+/**
+ * How long the planned prints take, with the ejections and maintenance their
+ * preludes run, or null when none of the files has a time estimate.
+ */
+export function getPlanSeconds(plans: PrintPlan[]): number | null {
+  let totalSeconds = 0;
+  let hasAnyTime = false;
+
+  for (const plan of plans) {
+    const seconds = getPrintSeconds(plan.job.file.metadata);
+    if (seconds !== null) {
+      hasAnyTime = true;
+      totalSeconds += seconds;
+    }
+    const ejections = plan.prelude.split(EJECTION_MACRO_START).length - 1;
+    totalSeconds +=
+      ejections * EJECTION_SECONDS + readMaintenanceSeconds(plan.prelude);
+  }
+
+  return hasAnyTime ? totalSeconds : null;
+}
@@ -0,0 +1,53 @@
+import type { GCodeFile } from '../types';
+
+export interface PrintJob {
+  file: GCodeFile;
+  /** 1-based position in the combined file. */
+  printNumber: number;
+  /** 1-based copy number of this file. */
+  copy: number;
+}
+
+/**
+ * Expands the file list into one entry per print, in the order the printer
+ * will run them.
+ */
+export function expandPrintSequence(files: GCodeFile[]): PrintJob[] {
+  const jobs: PrintJob[] = [];
+
+  for (const file of files) {
+    for (let copy = 1; copy <= file.copies; copy++) {
+      jobs.push({ file, printNumber: jobs.length + 1, copy });
+    }
+  }
+
+  return jobs;
+}
+
+export function getPrintLabel(job: PrintJob, name = job.file.fileName): string {
+  return job.file.copies > 1
+    ? `${name} (Copy ${job.copy}/${job.file.copies})`
+    : name;
+}
+
+export function stripPrintFileExtension(fileName: string): string {
+  return fileName.replace(/\.gcode\.3mf|\.3mf|\.gcode/gi, '');
+}
+
+/**
+ * A short human-readable name for the whole batch, e.g.
+ * "Bracket ×10, Hook ×4 +2 more".
+ */
+export function createBatchName(files: GCodeFile[]): string {
+  const MAX_LISTED = 3;
+  const listed = files
+    .slice(0, MAX_LISTED)
+    .map(
+      (file) => `${stripPrintFileExtension(file.displayName)} ×${file.copies}`,
+    );
+  const remaining = files.length - MAX_LISTED;
+
+  return remaining > 0
+    ? `${listed.join(', ')} +${remaining} more`
+    : listed.join(', ');
+}
@@ -0,0 +1,49 @@
+export interface PrinterSpec {
+  name: string;
+  /** Model ids Bambu Studio writes to slice_info.config (printer_model_id). */
+  modelIds: string[];
+  /** Printable width, depth and height in mm. */
+  buildVolume: [number, number, number];
+}
+
+export const PRINTERS: PrinterSpec[] = [
+  { name: 'Bambu Lab A1', modelIds: ['N2S'], buildVolume: [256, 256, 256] },
+  {
+    name: 'Bambu Lab A1 mini',
+    modelIds: ['N1'],
+    buildVolume: [180, 180, 180],
+  },
+  { name: 'Bambu Lab P1P', modelIds: ['C11'], buildVolume: [256, 256, 256] },
+  { name: 'Bambu Lab P1S', modelIds: ['C12'], buildVolume: [256, 256, 256] },
+  {
+    name: 'Bambu Lab X1',
+    modelIds: ['BL-P002'],
+    buildVolume: [256, 256, 256],
+  },
+  {
+    name: 'Bambu Lab X1 Carbon',
+    modelIds: ['BL-P001'],
+    buildVolume: [256, 256, 256],
+  },
+  { name: 'Bambu Lab X1E', modelIds: ['C13'], buildVolume: [256, 256, 256] },
+];
+
+export function findPrinter(nameOrModelId: string): PrinterSpec | null {
+  const needle = nameOrModelId.trim().toLowerCase();
+
+  return (
+    PRINTERS.find(
+      (printer) =>
+        printer.name.toLowerCase() === needle ||
+        printer.modelIds.some((id) => id.toLowerCase() === needle),
+    ) ?? null
+  );
+}
+
+/**
+ * Maps a printer name or model id to the name Bambu Studio shows, so files
+ * that only carry a model id compare equal to files that carry the name.
+ */
+export function normalizePrinterName(nameOrModelId: string): string {
+  return findPrinter(nameOrModelId)?.name ?? nameOrModelId.trim();
+}
@@ -0,0 +1,202 @@
+import { getPrintSeconds } from './gcodeHeader';
+import type { PrintJob } from './printSequence';
+
+/** Where one print sits on the combined batch timeline, in seconds. */
+export interface ProgressWindow {
+  startSeconds: number;
+  printSeconds: number;
+  totalSeconds: number;
+}
+
+const M73_PATTERN = /^M73\b([^;\n]*)/gm;
+
+// Rewritten commands keep the plate's own after this comment, so a
+// re-imported plate gets them back exactly
+const PLATE_PROGRESS_COMMENT = '; plate ';
+const RESTORE_PATTERN = new RegExp(
+  `^M73\\b([^;\\n]*)(?:${PLATE_PROGRESS_COMMENT}(M73\\b[^;\\n]*))?`,
+  'gm',
+);
+
+/**
+ * Lays the prints end to end so each one knows how much of the batch runs
+ * before and after it. Prints without a time estimate take up no time.
+ * `leadSeconds` is time spent just before each print, e.g. on maintenance.
+ */
+export function createProgressTimeline(
+  jobs: PrintJob[],
+  leadSeconds: number[] = [],
+): ProgressWindow[] {
+  return layOutProgressWindows(
+    jobs.map((job) => getPrintSeconds(job.file.metadata) ?? 0),
+    leadSeconds,
+  );
+}
+
+export function layOutProgressWindows(
+  durations: number[],
+  leadSeconds: number[] = [],
+): ProgressWindow[] {
+  const totalSeconds = durations.reduce(
+    (sum, seconds, index) => sum + seconds + (leadSeconds[index] ?? 0),
+    0,
+  );
+
+  let startSeconds = 0;
+  return durations.map((printSeconds, index) => {
+    startSeconds += leadSeconds[index] ?? 0;
+    const window = { startSeconds, printSeconds, totalSeconds };
+    startSeconds += printSeconds;
+    return window;
+  });
+}
+
+function replaceParam(params: string, letter: string, value: number): string {
+  return params.replace(
+    new RegExp(`(\\s${letter})-?\\d+(?:\\.\\d+)?`, 'i'),
+    (_, prefix: string) => `${prefix}${value}`,
+  );
+}
+
+function readParam(params: string, letter: string): number | null {
+  const match = params.match(
+    new RegExp(`\\s${letter}(-?\\d+(?:\\.\\d+)?)`, 'i'),
+  );
+  return match ? Number.parseFloat(match[1]) : null;
+}
+
+/**
+ * Cuts a plate's G-code at every M73 command, so the rest of the plate can
+ * be encoded once and reused for every copy while only the M73 commands are
+ * rewritten per copy. `segments` has one more entry than `commands`; each
+ * command holds the parameters after `M73`, without any trailing comment.
+ */
+export function splitAtProgressCommands(gcode: string): {
+  segments: string[];
+  commands: string[];
+} {
+  const segments: string[] = [];
+  const commands: string[] = [];
+  let lastIndex = 0;
+
+  for (const match of gcode.matchAll(M73_PATTERN)) {
+    const index = match.index ?? 0;
+    segments.push(gcode.slice(lastIndex, index));
+    commands.push(match[1]);
+    lastIndex = index + match[0].length;
+  }
+  segments.push(gcode.slice(lastIndex));
+
+  return { segments, commands };
+}
+
+/**
+ * Rewrites a plate's `M73 P<percent> R<minutes>` command against the whole
+ * batch, so the progress bar runs 0→100% once across every print and the
+ * remaining time counts down to the end of the last one. The plate's own
+ * command follows in a comment. Other M73 forms (e.g. `M73 L<layer>`) are
+ * left alone.
+ */
+export function rewriteProgressCommand(
+  params: string,
+  window: ProgressWindow,
+): string {
+  const { startSeconds, printSeconds, totalSeconds } = window;
+  const percent = readParam(params, 'P');
+  const remainingMinutes = readParam(params, 'R');
+  if (totalSeconds <= 0 || (percent === null && remainingMinutes === null)) {
+    return `M73${params}`;
+  }
+
+  const remainingAfter = totalSeconds - startSeconds - printSeconds;
+
+  // Prefer the plate's own remaining time; it's what the slicer measured
+  const localElapsed =
+    remainingMinutes !== null
+      ? Math.max(0, printSeconds - remainingMinutes * 60)
+      : ((percent ?? 0) / 100) * printSeconds;
+  const globalRemaining =
+    remainingMinutes !== null
+      ? remainingMinutes * 60 + remainingAfter
+      : totalSeconds - startSeconds - localElapsed;
+  const globalPercent = Math.min(
+    100,
+    Math.max(
+      0,
+      Math.round((100 * (totalSeconds - globalRemaining)) / totalSeconds),
+    ),
+  );
+
+  let rewritten = params;
+  if (percent !== null) {
+    rewritten = replaceParam(rewritten, 'P', globalPercent);
+  }
+  if (remainingMinutes !== null) {
+    rewritten = replaceParam(
+      rewritten,
+      'R',
+      Math.max(0, Math.round(globalRemaining / 60)),
+    );
+  }
+
+  return `M73${rewritten.trimEnd()} ${PLATE_PROGRESS_COMMENT}M73${params}`;
+}
+
+/**
+ * Undoes `rewriteProgressCommand` for files combined before it kept the
+ * plate's own command, turning batch-wide progress back into the plate's.
+ * The plate's remaining time comes back to the minute; its percentage is
+ * worked out from that, so it can be off by the rounding.
+ */
+function restoreProgressCommand(
+  params: string,
+  window: ProgressWindow,
+): string {
+  const { startSeconds, printSeconds, totalSeconds } = window;
+  const percent = readParam(params, 'P');
+  const remainingMinutes = readParam(params, 'R');
+  if (
+    totalSeconds <= 0 ||
+    printSeconds <= 0 ||
+    (percent === null && remainingMinutes === null)
+  ) {
+    return `M73${params}`;
+  }
+
+  const remainingAfter = totalSeconds - startSeconds - printSeconds;
+  const localRemaining = Math.min(
+    printSeconds,
+    Math.max(
+      0,
+      remainingMinutes !== null
+        ? remainingMinutes * 60 - remainingAfter
+        : printSeconds - (((percent ?? 0) / 100) * totalSeconds - startSeconds),
+    ),
+  );
+
+  let restored = params;
+  if (percent !== null) {
+    restored = replaceParam(
+      restored,
+      'P',
+      Math.round((100 * (printSeconds - localRemaining)) / printSeconds),
+    );
+  }
+  if (remainingMinutes !== null) {
+    restored = replaceParam(restored, 'R', Math.round(localRemaining / 60));
+  }
+
+  return `M73${restored}`;
+}
+
+/** Restores every M73 command in one print of a combined file. */
+export function restoreProgressCommands(
+  gcode: string,
+  window: ProgressWindow,
+): string {
+  return gcode.replace(
+    RESTORE_PATTERN,
+    (_, params: string, original: string | undefined) =>
+      original ?? restoreProgressCommand(params, window),
+  );
+}
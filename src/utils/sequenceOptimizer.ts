@@ -0,0 +1,130 @@
+import type { GCodeFile } from '../types';
+import { getFilamentLabels } from './filamentChange';
+import { getPrintSeconds } from './gcodeHeader';
+
+export type OptimizeStrategy = 'groupFilament' | 'roundRobin' | 'overnight';
+
+export const OPTIMIZE_STRATEGY_LABELS: Record<OptimizeStrategy, string> = {
+  groupFilament: 'Group by filament',
+  roundRobin: 'Matched sets (A, B, A, B)',
+  overnight: 'Long prints overnight',
+};
+
+export interface OptimizeOptions {
+  strategy: OptimizeStrategy;
+  /** When the batch starts; only used by the overnight strategy. */
+  startTime: Date;
+  /** Time of day the shop empties, as "HH:MM". */
+  nightStart: string;
+}
+
+function getCopySeconds(file: GCodeFile): number {
+  return getPrintSeconds(file.metadata) ?? 0;
+}
+
+/**
+ * Keeps files with the same filaments together, in the order each filament
+ * first appears, so the batch only swaps once per material.
+ */
+function groupByFilament(files: GCodeFile[]): GCodeFile[] {
+  const groups = new Map<string, GCodeFile[]>();
+
+  for (const file of files) {
+    const key = getFilamentLabels(file).join('|');
+    groups.set(key, [...(groups.get(key) ?? []), file]);
+  }
+
+  return Array.from(groups.values()).flat();
+}
+
+/**
+ * Alternates one copy of each file at a time, so matched sets come off the
+ * printer together. Copies of a file that end up next to each other are
+ * merged back into one entry.
+ */
+function interleaveCopies(files: GCodeFile[]): GCodeFile[] {
+  const remaining = files.map((file) => file.copies);
+  const order: GCodeFile[] = [];
+  const sources: string[] = [];
+  const splitCounts = new Map<string, number>();
+
+  while (remaining.some((copies) => copies > 0)) {
+    for (const [index, file] of files.entries()) {
+      if (remaining[index] === 0) continue;
+      remaining[index]--;
+
+      if (sources[sources.length - 1] === file.id) {
+        const last = order[order.length - 1];
+        order[order.length - 1] = { ...last, copies: last.copies + 1 };
+        continue;
+      }
+
+      // Each run of copies becomes its own list entry with its own id
+      const split = (splitCounts.get(file.id) ?? 0) + 1;
+      splitCounts.set(file.id, split);
+      order.push({
+        ...file,
+        id: split === 1 ? file.id : `${file.id}-${split}`,
+        copies: 1,
+      });
+      sources.push(file.id);
+    }
+  }
+
+  return order;
+}
+
+function getSecondsUntilNight(startTime: Date, nightStart: string): number {
+  const [hours, minutes] = nightStart.split(':').map(Number);
+  const night = new Date(startTime);
+  night.setHours(hours || 0, minutes || 0, 0, 0);
+  if (night <= startTime) {
+    night.setDate(night.getDate() + 1);
+  }
+  return (night.getTime() - startTime.getTime()) / 1000;
+}
+
+/**
+ * Fills the rest of the working day with the shortest prints, then runs the
+ * longest ones first once the shop is empty, so the long prints are the
+ * ones nobody has to wait for.
+ */
+function scheduleOvernight(
+  files: GCodeFile[],
+  startTime: Date,
+  nightStart: string,
+): GCodeFile[] {
+  const dayBudget = getSecondsUntilNight(startTime, nightStart);
+  const shortestFirst = [...files].sort(
+    (a, b) => getCopySeconds(a) - getCopySeconds(b),
+  );
+
+  const day: GCodeFile[] = [];
+  let elapsed = 0;
+  for (const file of shortestFirst) {
+    const seconds = getCopySeconds(file) * file.copies;
+    if (elapsed + seconds > dayBudget) break;
+    day.push(file);
+    elapsed += seconds;
+  }
+
+  const night = shortestFirst
+    .slice(day.length)
+    .sort((a, b) => getCopySeconds(b) - getCopySeconds(a));
+
+  return [...day, ...night];
+}
+
+export function optimizeOrder(
+  files: GCodeFile[],
+  options: OptimizeOptions,
+): GCodeFile[] {
+  switch (options.strategy) {
+    case 'groupFilament':
+      return groupByFilament(files);
+    case 'roundRobin':
+      return interleaveCopies(files);
+    case 'overnight':
+      return scheduleOvernight(files, options.startTime, options.nightStart);
+  }
+}
@@ -0,0 +1,111 @@
+import type { CombineOptions, GCodeFile, MaintenanceBlock } from '../types';
+import { type FilamentChange, findFilamentChanges } from './filamentChange';
+import { getPrintSeconds } from './gcodeHeader';
+import { getMaintenanceSeconds, scheduleMaintenance } from './maintenance';
+
+// Rough allowances for the time between prints that the slicer's estimate
+// doesn't cover. Cooling the bed dominates the ejection macro; heat-up only
+// applies when the slicer reported model time without the start sequence.
+export const EJECTION_SECONDS = 12 * 60;
+const HEAT_UP_SECONDS = 5 * 60;
+const FILAMENT_CHANGE_SECONDS = 5 * 60;
+
+export interface TimelineEntry {
+  file: GCodeFile;
+  /** 1-based position in the whole batch. */
+  printNumber: number;
+  /** 1-based copy number within the file. */
+  copy: number;
+  /** When the printer starts on this print, including any overhead. */
+  start: Date;
+  /** When the print itself starts, after ejection, heat-up and any stop. */
+  printStart: Date;
+  end: Date;
+  overheadSeconds: number;
+  /** False when the file has no time estimate, so its length is unknown. */
+  hasEstimate: boolean;
+  /** Set when the printer stops for someone to swap filament first. */
+  filamentChange: FilamentChange | null;
+  /** Maintenance blocks that run first. */
+  maintenance: MaintenanceBlock[];
+}
+
+function getOverheadSeconds(
+  file: GCodeFile,
+  isFirst: boolean,
+  options: CombineOptions,
+  filamentChange: FilamentChange | null,
+  maintenance: MaintenanceBlock[],
+): number {
+  let seconds = getMaintenanceSeconds(maintenance);
+  if (!isFirst && options.ejectionMacro) seconds += EJECTION_SECONDS;
+  if (filamentChange) seconds += FILAMENT_CHANGE_SECONDS;
+  if (file.metadata.totalEstimatedSeconds === null) seconds += HEAT_UP_SECONDS;
+  return seconds;
+}
+
+/**
+ * Lays every copy of every file out in print order from `batchStart`, with
+ * the ejection, maintenance, heat-up and filament-change time between them.
+ * Filament changes assume someone is there to load the next spool. A resumed
+ * batch starts at its resume point.
+ */
+export function buildTimeline(
+  files: GCodeFile[],
+  options: CombineOptions,
+  batchStart: Date,
+): TimelineEntry[] {
+  const filamentChanges =
+    options.filamentChange === 'off'
+      ? new Map<string, FilamentChange>()
+      : findFilamentChanges(files);
+  const schedule = scheduleMaintenance(files, options.maintenance);
+
+  const fromPrint = options.resume?.fromPrint ?? 1;
+  const entries: TimelineEntry[] = [];
+  let clock = batchStart.getTime();
+  let printNumber = 0;
+
+  for (const file of files) {
+    const printSeconds = getPrintSeconds(file.metadata);
+
+    for (let copy = 1; copy <= file.copies; copy++) {
+      printNumber++;
+      if (printNumber < fromPrint) continue;
+
+      // Copies of a file share filament, and a resumed batch starts with the
+      // right one loaded, so only the first copy after a change stops
+      const filamentChange =
+        copy === 1 && entries.length > 0
+          ? (filamentChanges.get(file.id) ?? null)
+          : null;
+      const maintenance = schedule.get(printNumber) ?? [];
+      const overheadSeconds = getOverheadSeconds(
+        file,
+        entries.length === 0 && !options.resume?.clearBed,
+        options,
+        filamentChange,
+        maintenance,
+      );
+
+      const start = clock;
+      const printStart = start + overheadSeconds * 1000;
+      clock = printStart + (printSeconds ?? 0) * 1000;
+
+      entries.push({
+        file,
+        printNumber,
+        copy,
+        start: new Date(start),
+        printStart: new Date(printStart),
+        end: new Date(clock),
+        overheadSeconds,
+        hasEstimate: printSeconds !== null,
+        filamentChange,
+        maintenance,
+      });
+    }
+  }
+
+  return entries;
+}
@@ -0,0 +1,203 @@
+import type { Toolpath, ToolpathBounds, ToolpathLayer } from '../types';
+import { findSections, parseCommand, resolveAxis } from './gcodeSections';
+
+// Arcs are drawn as chords about this long; even a large arc is capped so a
+// single command can't flood the preview.
+const ARC_SEGMENT_MM = 1;
+const MAX_ARC_SEGMENTS = 64;
+
+interface LayerBuilder {
+  z: number | null;
+  extrusions: number[];
+  travels: number[];
+}
+
+function extendBounds(
+  bounds: ToolpathBounds | null,
+  x: number,
+  y: number,
+): ToolpathBounds {
+  return bounds
+    ? {
+        minX: Math.min(bounds.minX, x),
+        maxX: Math.max(bounds.maxX, x),
+        minY: Math.min(bounds.minY, y),
+        maxY: Math.max(bounds.maxY, y),
+      }
+    : { minX: x, maxX: x, minY: y, maxY: y };
+}
+
+/**
+ * Breaks a G2 (clockwise) or G3 arc into the points along it, ending at
+ * (toX, toY). The centre is given relative to the start by I and J.
+ */
+function interpolateArc(
+  fromX: number,
+  fromY: number,
+  toX: number,
+  toY: number,
+  i: number,
+  j: number,
+  clockwise: boolean,
+): [number, number][] {
+  const centerX = fromX + i;
+  const centerY = fromY + j;
+  const radius = Math.hypot(i, j);
+  const startAngle = Math.atan2(fromY - centerY, fromX - centerX);
+  let sweep = Math.atan2(toY - centerY, toX - centerX) - startAngle;
+
+  if (clockwise && sweep >= 0) sweep -= 2 * Math.PI;
+  if (!clockwise && sweep <= 0) sweep += 2 * Math.PI;
+
+  const steps = Math.min(
+    MAX_ARC_SEGMENTS,
+    Math.max(1, Math.ceil((Math.abs(sweep) * radius) / ARC_SEGMENT_MM)),
+  );
+  const points: [number, number][] = [];
+  for (let step = 1; step < steps; step++) {
+    const angle = startAngle + (sweep * step) / steps;
+    points.push([
+      centerX + radius * Math.cos(angle),
+      centerY + radius * Math.sin(angle),
+    ]);
+  }
+  points.push([toX, toY]);
+
+  return points;
+}
+
+/**
+ * Reads the moves out of a plate's G-code for the preview. A new layer
+ * starts whenever the print extrudes at a new height; travels belong to the
+ * layer they happen in. Everything up to the end of the start G-code
+ * (homing, purge lines, and any ejection or filament change run ahead of
+ * the plate) is collected in a leading layer without a height, and left out
+ * of the footprint. Moves from an unknown position, e.g. right after homing,
+ * are skipped until the position is known again.
+ */
+export function parseToolpath(gcode: string): Toolpath {
+  const sections = findSections(gcode);
+  const bodyStart = sections.startEnd ?? 0;
+  const bodyEnd = sections.endStart ?? gcode.length;
+
+  const layers: LayerBuilder[] = [{ z: null, extrusions: [], travels: [] }];
+  let footprint: ToolpathBounds | null = null;
+
+  let absolute = true;
+  let relativeExtrusion = false;
+  let x: number | null = null;
+  let y: number | null = null;
+  let z: number | null = null;
+  let e = 0;
+
+  let offset = 0;
+  for (const line of gcode.split('\n')) {
+    const inBody = offset >= bodyStart && offset < bodyEnd;
+    offset += line.length + 1;
+
+    const parsed = parseCommand(line);
+    if (!parsed) continue;
+    const { command, params } = parsed;
+
+    switch (command) {
+      case 'G90':
+        absolute = true;
+        break;
+      case 'G91':
+        absolute = false;
+        break;
+      case 'M82':
+        relativeExtrusion = false;
+        break;
+      case 'M83':
+        relativeExtrusion = true;
+        break;
+      case 'G28':
+        x = y = z = null;
+        break;
+      case 'G92':
+        x = params.get('X') ?? x;
+        y = params.get('Y') ?? y;
+        z = params.get('Z') ?? z;
+        e = params.get('E') ?? e;
+        break;
+      case 'G0':
+      case 'G1':
+      case 'G2':
+      case 'G3': {
+        const nextX = resolveAxis(x, params.get('X'), absolute);
+        const nextY = resolveAxis(y, params.get('Y'), absolute);
+        const nextZ = resolveAxis(z, params.get('Z'), absolute);
+
+        const eWord = params.get('E');
+        let extruding = false;
+        if (eWord !== undefined) {
+          extruding = relativeExtrusion ? eWord > 0 : eWord > e;
+          e = relativeExtrusion ? e + eWord : eWord;
+        }
+
+        let layer = layers[layers.length - 1];
+        if (extruding && inBody && nextZ !== null && nextZ !== layer.z) {
+          layer = { z: nextZ, extrusions: [], travels: [] };
+          layers.push(layer);
+        }
+
+        if (x !== null && y !== null && nextX !== null && nextY !== null) {
+          const points =
+            command === 'G2' || command === 'G3'
+              ? interpolateArc(
+                  x,
+                  y,
+                  nextX,
+                  nextY,
+                  params.get('I') ?? 0,
+                  params.get('J') ?? 0,
+                  command === 'G2',
+                )
+              : [[nextX, nextY] as [number, number]];
+          const target = extruding ? layer.extrusions : layer.travels;
+
+          let fromX = x;
+          let fromY = y;
+          for (const [pointX, pointY] of points) {
+            target.push(fromX, fromY, pointX, pointY);
+            if (extruding && inBody) {
+              footprint = extendBounds(footprint, pointX, pointY);
+            }
+            fromX = pointX;
+            fromY = pointY;
+          }
+          if (extruding && inBody) footprint = extendBounds(footprint, x, y);
+        }
+
+        x = nextX;
+        y = nextY;
+        z = nextZ;
+        break;
+      }
+    }
+  }
+
+  return {
+    layers: layers
+      .filter(
+        (layer) => layer.extrusions.length > 0 || layer.travels.length > 0,
+      )
+      .map(
+        (layer): ToolpathLayer => ({
+          z: layer.z,
+          extrusions: new Float32Array(layer.extrusions),
+          travels: new Float32Array(layer.travels),
+        }),
+      ),
+    footprint,
+  };
+}
+
+/** The typed arrays behind a toolpath, for handing it across threads. */
+export function getToolpathBuffers(toolpath: Toolpath): ArrayBuffer[] {
+  return toolpath.layers.flatMap((layer) => [
+    layer.extrusions.buffer as ArrayBuffer,
+    layer.travels.buffer as ArrayBuffer,
+  ]);
+}
@@ -0,0 +1,153 @@
+import type { Toolpath } from '../types';
+
+export type ToolpathView = 'top' | 'iso';
+
+export interface ToolpathDrawOptions {
+  /** Bed width, depth and height in mm. */
+  bed: [number, number, number];
+  /** Layers up to and including this one are drawn. */
+  layerIndex: number;
+  view: ToolpathView;
+}
+
+// Same palette as App.css; canvas can't read the CSS variables directly
+const BED_COLOR = '#2a2420';
+const BED_EDGE_COLOR = '#4a403a';
+const EXTRUSION_COLOR = '#e8a84c';
+const LOWER_LAYER_COLOR = 'rgba(196, 145, 90, 0.35)';
+const TRAVEL_COLOR = 'rgba(138, 126, 114, 0.6)';
+const FOOTPRINT_COLOR = '#7eb88a';
+
+const PADDING_RATIO = 0.05;
+const COS_30 = Math.cos(Math.PI / 6);
+const SIN_30 = Math.sin(Math.PI / 6);
+
+type Project = (x: number, y: number, z: number) => [number, number];
+
+/**
+ * Maps bed millimetres onto the canvas. The top view looks straight down
+ * with Y pointing up; the isometric view turns the bed 45° and stands the
+ * layers up on it.
+ */
+function createProjection(
+  size: number,
+  [width, depth, height]: [number, number, number],
+  view: ToolpathView,
+): Project {
+  const padding = size * PADDING_RATIO;
+  const available = size - 2 * padding;
+
+  if (view === 'top') {
+    const scale = available / Math.max(width, depth);
+    const offsetX = padding + (available - width * scale) / 2;
+    const offsetY = padding + (available + depth * scale) / 2;
+    return (x, y) => [offsetX + x * scale, offsetY - y * scale];
+  }
+
+  const spanX = (width + depth) * COS_30;
+  const spanY = (width + depth) * SIN_30 + height;
+  const scale = available / Math.max(spanX, spanY);
+  const offsetX =
+    padding + (available - spanX * scale) / 2 + depth * COS_30 * scale;
+  const offsetY =
+    padding +
+    (available - spanY * scale) / 2 +
+    (height + (width + depth) * SIN_30) * scale;
+  return (x, y, z) => [
+    offsetX + (x - y) * COS_30 * scale,
+    offsetY - ((x + y) * SIN_30 + z) * scale,
+  ];
+}
+
+function strokeSegments(
+  context: CanvasRenderingContext2D,
+  segments: Float32Array,
+  z: number,
+  project: Project,
+): void {
+  context.beginPath();
+  for (let i = 0; i < segments.length; i += 4) {
+    const [fromX, fromY] = project(segments[i], segments[i + 1], z);
+    const [toX, toY] = project(segments[i + 2], segments[i + 3], z);
+    context.moveTo(fromX, fromY);
+    context.lineTo(toX, toY);
+  }
+  context.stroke();
+}
+
+function tracePolygon(
+  context: CanvasRenderingContext2D,
+  points: [number, number][],
+): void {
+  context.beginPath();
+  for (const [index, [x, y]] of points.entries()) {
+    if (index === 0) context.moveTo(x, y);
+    else context.lineTo(x, y);
+  }
+  context.closePath();
+}
+
+/**
+ * Draws the bed, the layers below the selected one faded, the selected
+ * layer's extrusions and travels, and the dashed outline of the plate's
+ * footprint. `size` is the canvas size in CSS pixels; the context is
+ * expected to be scaled for the device pixel ratio already.
+ */
+export function drawToolpath(
+  context: CanvasRenderingContext2D,
+  size: number,
+  toolpath: Toolpath,
+  { bed, layerIndex, view }: ToolpathDrawOptions,
+): void {
+  const project = createProjection(size, bed, view);
+  const [width, depth] = bed;
+
+  context.clearRect(0, 0, size, size);
+  context.lineCap = 'round';
+
+  tracePolygon(context, [
+    project(0, 0, 0),
+    project(width, 0, 0),
+    project(width, depth, 0),
+    project(0, depth, 0),
+  ]);
+  context.fillStyle = BED_COLOR;
+  context.fill();
+  context.strokeStyle = BED_EDGE_COLOR;
+  context.lineWidth = 1;
+  context.stroke();
+
+  const layers = toolpath.layers.slice(0, layerIndex + 1);
+  const current = layers[layers.length - 1];
+
+  context.strokeStyle = LOWER_LAYER_COLOR;
+  for (const layer of layers.slice(0, -1)) {
+    strokeSegments(context, layer.extrusions, layer.z ?? 0, project);
+  }
+
+  if (current) {
+    const z = current.z ?? 0;
+    context.strokeStyle = TRAVEL_COLOR;
+    context.lineWidth = 0.5;
+    strokeSegments(context, current.travels, z, project);
+
+    context.strokeStyle = EXTRUSION_COLOR;
+    context.lineWidth = 1.25;
+    strokeSegments(context, current.extrusions, z, project);
+  }
+
+  if (toolpath.footprint) {
+    const { minX, maxX, minY, maxY } = toolpath.footprint;
+    tracePolygon(context, [
+      project(minX, minY, 0),
+      project(maxX, minY, 0),
+      project(maxX, maxY, 0),
+      project(minX, maxY, 0),
+    ]);
+    context.setLineDash([4, 4]);
+    context.strokeStyle = FOOTPRINT_COLOR;
+    context.lineWidth = 1;
+    context.stroke();
+    context.setLineDash([]);
+  }
+}
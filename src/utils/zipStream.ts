@@ -0,0 +1,420 @@
+// A minimal streaming ZIP writer and reader. JSZip needs every entry in
+// memory at once, which a 99-copy batch of a large plate doesn't fit into,
+// so the combined archive is written (and read back for verification) with
+// the browser's own Compression Streams instead.
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const LOCAL_HEADER_LENGTH = 30;
+const CENTRAL_HEADER_LENGTH = 46;
+const END_OF_CENTRAL_DIRECTORY_LENGTH = 22;
+
+// Bit 3: sizes and CRC follow the data. Bit 11: names are UTF-8.
+const STREAMED_UTF8_FLAGS = 0x0808;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const ZIP_VERSION = 20;
+const MAX_ZIP32_SIZE = 0xffffffff;
+
+// Small writes (separators, rewritten M73 lines) are batched into chunks of
+// this size before they reach the compressor.
+const WRITE_BUFFER_SIZE = 1 << 18;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+class Crc32 {
+  private crc = 0xffffffff;
+
+  update(bytes: Uint8Array): void {
+    let crc = this.crc;
+    for (let i = 0; i < bytes.length; i++) {
+      crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    this.crc = crc;
+  }
+
+  digest(): number {
+    return (this.crc ^ 0xffffffff) >>> 0;
+  }
+}
+
+export interface ZipEntry {
+  path: string;
+  method: number;
+  crc32: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+/** Receives the uncompressed bytes of one archive entry, in order. */
+export type ZipEntryWriter = (chunk: Uint8Array<ArrayBuffer>) => Promise<void>;
+
+const encoder = new TextEncoder();
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((Math.max(1980, date.getFullYear()) - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+async function readAll(
+  stream: ReadableStream<Uint8Array>,
+  onChunk: (chunk: Uint8Array) => void,
+): Promise<void> {
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    onChunk(value);
+  }
+}
+
+/**
+ * Writes a ZIP archive entry by entry. Compressed output is kept as a list
+ * of chunks and only joined into a Blob by `finish`, so no entry is ever
+ * held in memory uncompressed.
+ */
+export class ZipWriter {
+  private parts: Uint8Array[] = [];
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private modified = toDosDateTime(new Date());
+
+  addDirectory(path: string): void {
+    const directoryPath = path.endsWith('/') ? path : `${path}/`;
+    const localHeaderOffset = this.offset;
+    this.push(this.createLocalHeader(directoryPath, METHOD_STORED));
+    this.push(this.createDataDescriptor(0, 0, 0));
+    this.entries.push({
+      path: directoryPath,
+      method: METHOD_STORED,
+      crc32: 0,
+      compressedSize: 0,
+      size: 0,
+      localHeaderOffset,
+    });
+  }
+
+  async addFile(
+    path: string,
+    content: Uint8Array | ArrayBuffer | Blob | string,
+  ): Promise<void> {
+    // Blobs can be whole archives (e.g. the parts of a split batch), so
+    // they're streamed in rather than read into memory first
+    if (content instanceof Blob) {
+      await this.addStream(path, async (write) => {
+        const reader = content.stream().getReader();
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) return;
+          await write(value);
+        }
+      });
+      return;
+    }
+
+    const bytes =
+      typeof content === 'string'
+        ? encoder.encode(content)
+        : new Uint8Array(content);
+
+    await this.addStream(path, (write) => write(bytes));
+  }
+
+  /**
+   * Adds an entry whose content is produced by `produce`, one chunk at a
+   * time. Chunks are compressed as they arrive; the CRC and sizes go into a
+   * data descriptor after the data, as they aren't known up front.
+   */
+  async addStream(
+    path: string,
+    produce: (write: ZipEntryWriter) => Promise<void>,
+  ): Promise<void> {
+    const localHeaderOffset = this.offset;
+    this.push(this.createLocalHeader(path, METHOD_DEFLATE));
+
+    const compression = new CompressionStream('deflate-raw');
+    const writer = compression.writable.getWriter();
+    let compressedSize = 0;
+    const collecting = readAll(compression.readable, (chunk) => {
+      compressedSize += chunk.length;
+      this.push(chunk);
+    });
+
+    const crc = new Crc32();
+    let size = 0;
+    let buffer = new Uint8Array(WRITE_BUFFER_SIZE);
+    let buffered = 0;
+
+    const flush = async () => {
+      if (buffered === 0) return;
+      const chunk = buffer.subarray(0, buffered);
+      buffer = new Uint8Array(WRITE_BUFFER_SIZE);
+      buffered = 0;
+      await writer.write(chunk);
+    };
+
+    const write: ZipEntryWriter = async (chunk) => {
+      crc.update(chunk);
+      size += chunk.length;
+      if (size > MAX_ZIP32_SIZE) {
+        throw new Error(
+          `"${path}" is larger than 4 GB, which a .gcode.3mf can't hold. Reduce the number of copies.`,
+        );
+      }
+
+      if (buffered + chunk.length > WRITE_BUFFER_SIZE) {
+        await flush();
+      }
+      if (chunk.length >= WRITE_BUFFER_SIZE) {
+        await writer.write(chunk);
+      } else {
+        buffer.set(chunk, buffered);
+        buffered += chunk.length;
+      }
+    };
+
+    try {
+      await produce(write);
+      await flush();
+      await writer.close();
+      await collecting;
+    } catch (error) {
+      await writer.abort(error).catch(() => {});
+      await collecting.catch(() => {});
+      throw error;
+    }
+
+    this.push(this.createDataDescriptor(crc.digest(), compressedSize, size));
+    this.entries.push({
+      path,
+      method: METHOD_DEFLATE,
+      crc32: crc.digest(),
+      compressedSize,
+      size,
+      localHeaderOffset,
+    });
+  }
+
+  finish(): Blob {
+    const centralDirectoryOffset = this.offset;
+
+    for (const entry of this.entries) {
+      this.push(this.createCentralHeader(entry));
+    }
+
+    const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_LENGTH);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    view.setUint16(8, this.entries.length, true);
+    view.setUint16(10, this.entries.length, true);
+    view.setUint32(12, this.offset - centralDirectoryOffset, true);
+    view.setUint32(16, centralDirectoryOffset, true);
+    this.push(end);
+
+    if (this.offset > MAX_ZIP32_SIZE) {
+      throw new Error(
+        "The combined archive is larger than 4 GB, which a .gcode.3mf can't hold. Reduce the number of copies.",
+      );
+    }
+
+    return new Blob(this.parts as BlobPart[], {
+      type: 'application/octet-stream',
+    });
+  }
+
+  private push(chunk: Uint8Array): void {
+    this.parts.push(chunk);
+    this.offset += chunk.length;
+  }
+
+  private createLocalHeader(path: string, method: number): Uint8Array {
+    const name = encoder.encode(path);
+    const header = new Uint8Array(LOCAL_HEADER_LENGTH + name.length);
+    const view = new DataView(header.buffer);
+
+    view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    view.setUint16(4, ZIP_VERSION, true);
+    view.setUint16(6, STREAMED_UTF8_FLAGS, true);
+    view.setUint16(8, method, true);
+    view.setUint16(10, this.modified.time, true);
+    view.setUint16(12, this.modified.date, true);
+    // CRC and sizes (14-25) are left zero; they're in the data descriptor
+    view.setUint16(26, name.length, true);
+    header.set(name, LOCAL_HEADER_LENGTH);
+
+    return header;
+  }
+
+  private createDataDescriptor(
+    crc32: number,
+    compressedSize: number,
+    size: number,
+  ): Uint8Array {
+    const descriptor = new Uint8Array(16);
+    const view = new DataView(descriptor.buffer);
+
+    view.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+    view.setUint32(4, crc32, true);
+    view.setUint32(8, compressedSize, true);
+    view.setUint32(12, size, true);
+
+    return descriptor;
+  }
+
+  private createCentralHeader(entry: ZipEntry): Uint8Array {
+    const name = encoder.encode(entry.path);
+    const header = new Uint8Array(CENTRAL_HEADER_LENGTH + name.length);
+    const view = new DataView(header.buffer);
+
+    view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    view.setUint16(4, ZIP_VERSION, true);
+    view.setUint16(6, ZIP_VERSION, true);
+    view.setUint16(8, STREAMED_UTF8_FLAGS, true);
+    view.setUint16(10, entry.method, true);
+    view.setUint16(12, this.modified.time, true);
+    view.setUint16(14, this.modified.date, true);
+    view.setUint32(16, entry.crc32, true);
+    view.setUint32(20, entry.compressedSize, true);
+    view.setUint32(24, entry.size, true);
+    view.setUint16(28, name.length, true);
+    // MS-DOS directory attribute, so unzip tools recreate empty folders
+    view.setUint32(38, entry.path.endsWith('/') ? 0x10 : 0, true);
+    view.setUint32(42, entry.localHeaderOffset, true);
+    header.set(name, CENTRAL_HEADER_LENGTH);
+
+    return header;
+  }
+}
+
+/**
+ * Lists the entries of a ZIP archive from its central directory, reading
+ * only the end of the Blob.
+ */
+export async function readZipEntries(blob: Blob): Promise<ZipEntry[]> {
+  const tailStart = Math.max(
+    0,
+    blob.size - END_OF_CENTRAL_DIRECTORY_LENGTH - 0xffff,
+  );
+  const tail = new DataView(await blob.slice(tailStart).arrayBuffer());
+
+  let endOffset = -1;
+  for (let i = tail.byteLength - END_OF_CENTRAL_DIRECTORY_LENGTH; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const entryCount = tail.getUint16(endOffset + 10, true);
+  const directorySize = tail.getUint32(endOffset + 12, true);
+  const directoryOffset = tail.getUint32(endOffset + 16, true);
+  const directory = new Uint8Array(
+    await blob
+      .slice(directoryOffset, directoryOffset + directorySize)
+      .arrayBuffer(),
+  );
+  const view = new DataView(directory.buffer);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  let offset = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const nameStart = offset + CENTRAL_HEADER_LENGTH;
+
+    entries.push({
+      path: decoder.decode(
+        directory.subarray(nameStart, nameStart + nameLength),
+      ),
+      method: view.getUint16(offset + 10, true),
+      crc32: view.getUint32(offset + 16, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+
+    offset = nameStart + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Streams the uncompressed content of one entry, chunk by chunk.
+ */
+export async function readZipEntry(
+  blob: Blob,
+  entry: ZipEntry,
+  onChunk: (chunk: Uint8Array) => void,
+): Promise<void> {
+  const header = new DataView(
+    await blob
+      .slice(
+        entry.localHeaderOffset,
+        entry.localHeaderOffset + LOCAL_HEADER_LENGTH,
+      )
+      .arrayBuffer(),
+  );
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt ZIP entry "${entry.path}"`);
+  }
+
+  const dataStart =
+    entry.localHeaderOffset +
+    LOCAL_HEADER_LENGTH +
+    header.getUint16(26, true) +
+    header.getUint16(28, true);
+  const data = blob.slice(dataStart, dataStart + entry.compressedSize).stream();
+
+  if (entry.method === METHOD_STORED) {
+    await readAll(data, onChunk);
+  } else if (entry.method === METHOD_DEFLATE) {
+    await readAll(
+      data.pipeThrough(new DecompressionStream('deflate-raw')),
+      onChunk,
+    );
+  } else {
+    throw new Error(
+      `Unsupported compression method ${entry.method} for "${entry.path}"`,
+    );
+  }
+}
+
+export async function readZipEntryText(
+  blob: Blob,
+  entry: ZipEntry,
+): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = '';
+  await readZipEntry(blob, entry, (chunk) => {
+    text += decoder.decode(chunk, { stream: true });
+  });
+  return text + decoder.decode();
+}
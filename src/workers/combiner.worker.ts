@@ -0,0 +1,133 @@
+import { verifyArchiveChecksums } from '../utils/archiveChecksums';
+import { splitBatch } from '../utils/batchSplit';
+import { offsetPlate } from '../utils/bedOffset';
+import { trimStartCalibration } from '../utils/calibration';
+import { processUploadedFile } from '../utils/fileProcessor';
+import { createCombinedZip, createPartsArchive } from '../utils/gcodeCombiner';
+import { getToolpathBuffers, parseToolpath } from '../utils/toolpath';
+import type { CombinerRequest, CombinerResponse } from './messages';
+
+// Share of each part's progress spent writing its archive; the rest is the
+// checksum verification pass over it.
+const COMBINE_PROGRESS_SHARE = 0.9;
+
+function post(response: CombinerResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, { transfer });
+}
+
+/**
+ * Maps a step's own 0-1 progress into [start, end] of the request and posts
+ * it, skipping updates that wouldn't move the progress bar.
+ */
+function reportProgress(
+  id: number,
+  message: string | null,
+  start = 0,
+  end = 1,
+) {
+  let lastPercent = -1;
+
+  return (fraction: number) => {
+    const progress = start + (end - start) * Math.min(1, fraction);
+    const percent = Math.floor(progress * 100);
+    if (percent === lastPercent) return;
+
+    lastPercent = percent;
+    post({ id, type: 'progress', progress, message });
+  };
+}
+
+async function handleRequest(request: CombinerRequest): Promise<void> {
+  const { id } = request;
+
+  switch (request.type) {
+    case 'process': {
+      const upload = await processUploadedFile(
+        request.file,
+        reportProgress(id, null),
+      );
+      // Hand the archives over instead of copying them; plates from the same
+      // upload share one buffer
+      const archives = new Set(
+        upload.files.flatMap((file) =>
+          file.originalZip ? [file.originalZip] : [],
+        ),
+      );
+      post({ id, type: 'done', result: upload }, Array.from(archives));
+      return;
+    }
+
+    case 'combine': {
+      const fromPrint = request.options.resume?.fromPrint ?? 1;
+      const parts = splitBatch(request.files, request.options.split, fromPrint);
+      if (parts.length === 0) {
+        throw new Error('No prints left to combine');
+      }
+      const blobs: Blob[] = [];
+      let checksumCount = 0;
+
+      // Each part gets a share of the progress bar by its number of prints
+      for (const part of parts) {
+        const printCount = part.totalPrints - fromPrint + 1;
+        const start = (part.firstPrintNumber - fromPrint) / printCount;
+        const end = (part.lastPrintNumber - fromPrint + 1) / printCount;
+        const verifyStart = start + (end - start) * COMBINE_PROGRESS_SHARE;
+        const label =
+          parts.length > 1
+            ? ` (part ${part.partNumber} of ${part.totalParts})`
+            : '';
+
+        const blob = await createCombinedZip(
+          part.files,
+          request.options,
+          reportProgress(id, `Combining G-code${label}...`, start, verifyStart),
+          part,
+        );
+        checksumCount += await verifyArchiveChecksums(
+          blob,
+          reportProgress(
+            id,
+            `Verifying archive checksums${label}...`,
+            verifyStart,
+            end,
+          ),
+        );
+        blobs.push(blob);
+      }
+
+      const blob =
+        parts.length === 1 ? blobs[0] : await createPartsArchive(parts, blobs);
+      post({
+        id,
+        type: 'done',
+        result: { blob, checksumCount, partCount: parts.length },
+      });
+      return;
+    }
+
+    case 'toolpath': {
+      const gcode = request.trimCalibration
+        ? trimStartCalibration(request.gcode).gcode
+        : request.gcode;
+      const toolpath = parseToolpath(
+        request.prelude + offsetPlate(gcode, request.offset),
+      );
+      post(
+        { id, type: 'done', result: toolpath },
+        getToolpathBuffers(toolpath),
+      );
+      return;
+    }
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<CombinerRequest>) => {
+  handleRequest(event.data).catch((error: unknown) => {
+    post({
+      id: event.data.id,
+      type: 'error',
+      name: error instanceof Error ? error.name : 'Error',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import type {
+  BedOffset,
+  CombineOptions,
+  GCodeFile,
+  ProcessedUpload,
+  Toolpath,
+} from '../types';
+import { ArchiveVerificationError } from '../utils/archiveChecksums';
+import { FileProcessingError } from '../utils/fileProcessor';
+import type {
+  CombineResult,
+  CombinerRequest,
+  CombinerResponse,
+} from './messages';
+
+export class CancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+export type WorkerProgressCallback = (
+  fraction: number,
+  message: string | null,
+) => void;
+
+interface PendingRequest {
+  resolve: (result: ProcessedUpload | CombineResult | Toolpath) => void;
+  reject: (error: Error) => void;
+  onProgress?: WorkerProgressCallback;
+}
+
+// Errors thrown in the worker lose their class on the way over; these are
+// rebuilt so callers can still tell them apart with instanceof
+const KNOWN_ERRORS: Record<string, new (message: string) => Error> = {
+  FileProcessingError,
+  ArchiveVerificationError,
+};
+
+function restoreError(name: string, message: string): Error {
+  const KnownError = KNOWN_ERRORS[name];
+  if (KnownError) return new KnownError(message);
+
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+/**
+ * Runs extraction, combining, zipping and toolpath parsing in a Web Worker
+ * so large batches don't freeze the page. The worker is started on first
+ * use; `cancel` stops it mid-request and rejects everything in flight with
+ * a CancelledError.
+ */
+export class CombinerClient {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+
+  processFile(
+    file: File,
+    onProgress?: WorkerProgressCallback,
+  ): Promise<ProcessedUpload> {
+    return this.request(
+      { id: this.nextId++, type: 'process', file },
+      onProgress,
+    ) as Promise<ProcessedUpload>;
+  }
+
+  combine(
+    files: GCodeFile[],
+    options: CombineOptions,
+    onProgress?: WorkerProgressCallback,
+  ): Promise<CombineResult> {
+    return this.request(
+      { id: this.nextId++, type: 'combine', files, options },
+      onProgress,
+    ) as Promise<CombineResult>;
+  }
+
+  /**
+   * Reads the moves of `gcode` for the preview, optionally as the combined
+   * file runs it: after `prelude`, without the start-up calibration and
+   * moved by `offset`.
+   */
+  parseToolpath(
+    gcode: string,
+    prelude = '',
+    trimCalibration = false,
+    offset: BedOffset = { x: 0, y: 0 },
+  ): Promise<Toolpath> {
+    return this.request({
+      id: this.nextId++,
+      type: 'toolpath',
+      gcode,
+      prelude,
+      trimCalibration,
+      offset,
+    }) as Promise<Toolpath>;
+  }
+
+  cancel(): void {
+    this.worker?.terminate();
+    this.worker = null;
+
+    for (const request of this.pending.values()) {
+      request.reject(new CancelledError());
+    }
+    this.pending.clear();
+  }
+
+  private request(
+    message: CombinerRequest,
+    onProgress?: WorkerProgressCallback,
+  ): Promise<ProcessedUpload | CombineResult | Toolpath> {
+    return new Promise((resolve, reject) => {
+      this.pending.set(message.id, { resolve, reject, onProgress });
+      this.getWorker().postMessage(message);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(
+      new URL('./combiner.worker.ts', import.meta.url),
+      { name: 'combiner' },
+    );
+    worker.addEventListener(
+      'message',
+      (event: MessageEvent<CombinerResponse>) =>
+        this.handleResponse(event.data),
+    );
+    worker.addEventListener('error', (event) => {
+      event.preventDefault();
+      for (const request of this.pending.values()) {
+        request.reject(new Error(event.message || 'The worker crashed'));
+      }
+      this.pending.clear();
+      worker.terminate();
+      this.worker = null;
+    });
+
+    this.worker = worker;
+    return worker;
+  }
+
+  private handleResponse(response: CombinerResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+
+    switch (response.type) {
+      case 'progress':
+        request.onProgress?.(response.progress, response.message);
+        break;
+      case 'done':
+        this.pending.delete(response.id);
+        request.resolve(response.result);
+        break;
+      case 'error':
+        this.pending.delete(response.id);
+        request.reject(restoreError(response.name, response.message));
+        break;
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import type {
+  BedOffset,
+  CombineOptions,
+  GCodeFile,
+  ProcessedUpload,
+  Toolpath,
+} from '../types';
+
+export interface CombineResult {
+  /** The .gcode.3mf, or a ZIP of them when the batch was split. */
+  blob: Blob;
+  checksumCount: number;
+  partCount: number;
+}
+
+export type CombinerRequest =
+  | { id: number; type: 'process'; file: File }
+  | {
+      id: number;
+      type: 'combine';
+      files: GCodeFile[];
+      options: CombineOptions;
+    }
+  | {
+      id: number;
+      type: 'toolpath';
+      gcode: string;
+      /** Injected G-code to run ahead of the plate, see getPrintPlan. */
+      prelude: string;
+      trimCalibration: boolean;
+      offset: BedOffset;
+    };
+
+export type CombinerResponse =
+  | {
+      id: number;
+      type: 'progress';
+      /** 0 to 1 across the whole request. */
+      progress: number;
+      message: string | null;
+    }
+  | {
+      id: number;
+      type: 'done';
+      result: ProcessedUpload | CombineResult | Toolpath;
+    }
+  | { id: number; type: 'error'; name: string; message: string };